@@ -11,13 +11,73 @@
  *   - Stop → session.deleted (cleanup)
  */
 
+import type { ParseStrategy } from "../../src/lib/types.js";
 import {
+  configureSessionPersistence,
+  flushSessionStates,
+  loadAllSessionStates,
+  updateSession,
   loadSessionState,
   saveSessionState,
   clearSessionState,
-  parsePromptEngineResponse,
-  formatChainReminder,
+  parsePromptEngineResponseWithStrategy,
+  listSessionChains,
+  formatSessionReminder,
+  getChainKey,
 } from "../../src/lib/session-state.js";
+import { appendGateAudit } from "../../src/lib/gate-audit.js";
+import { formatCriteriaResults, parseGateVerdict } from "../../src/lib/gate-verdict.js";
+import {
+  checkGateEvidence,
+  formatEvidenceRejection,
+  resolveEvidenceRules,
+} from "../../src/lib/gate-evidence.js";
+import { loadPluginConfig } from "../../src/lib/plugin-config.js";
+import { sweepStaleSessions } from "../../src/lib/session-gc.js";
+import { loadPromptsCache, loadGatesCache } from "../../src/lib/cache-manager.js";
+import { suggestPrompts, formatPromptSuggestions } from "../../src/lib/prompt-suggest.js";
+import {
+  parsePromptCommand,
+  parseEngineCommand,
+  resolvePromptCommand,
+  formatPromptInstruction,
+} from "../../src/lib/prompt-syntax.js";
+import { getChainStatus, resetActiveChain, listGates } from "../../src/lib/plugin-tools.js";
+import { completeChain, formatCompletionSummary } from "../../src/lib/chain-archive.js";
+import { abandonChain, formatOpenChainConflict, takeAbandonedChain } from "../../src/lib/chain-abandon.js";
+import { injectContinuationChainId } from "../../src/lib/continuation.js";
+import {
+  checkPromptCommandArgs,
+  formatArgumentChange,
+  normalizePromptCommand,
+} from "../../src/lib/prompt-args.js";
+import {
+  applyChainResponse,
+  applyGateVerdict,
+  deriveChainStatus,
+  transitionChain,
+} from "../../src/lib/chain-state-machine.js";
+import {
+  buildCompactionPrompt,
+  markSessionCompacted,
+  takePostCompactionRestore,
+} from "../../src/lib/compaction.js";
+import { resolveGateEnforcement, enforceGate } from "../../src/lib/gate-policy.js";
+import { findGateLock, formatGateLockDenial } from "../../src/lib/gate-lock.js";
+import {
+  applyShellVerifyBudget,
+  formatVerifyEscalation,
+  formatVerifyRun,
+  isShellTool,
+  matchesVerifyCommand,
+  recordShellVerifyRun,
+} from "../../src/lib/shell-verify.js";
+import {
+  appendTimelineEvent,
+  getSessionTimeline,
+  recordStateTransition,
+  formatTimelineSummary,
+} from "../../src/lib/timeline.js";
 
 
 // Plugin context type (OpenCode plugin API)
@@ -34,6 +94,8 @@ interface ToolExecuteInput {
   args?: Record<string, unknown>;
   metadata?: {
     output?: string;
+    /** Exit status reported by the bash tool */
+    exit?: number | null;
   };
   sessionID?: string;
   session_id?: string;
@@ -44,6 +106,16 @@ interface ToolExecuteOutput {
   args: Record<string, unknown>;
 }
 
+// System prompt transform types (experimental.chat.system.transform)
+interface SystemTransformInput {
+  sessionID?: string;
+  session_id?: string;
+}
+
+interface SystemTransformOutput {
+  system: string[];
+}
+
 // Compaction input/output types
 interface CompactionInput {
   sessionID?: string;
@@ -55,13 +127,51 @@ interface CompactionOutput {
   prompt?: string;
 }
 
-// Event payload type
+// Custom tool context (OpenCode plugin API)
+interface ToolContext {
+  sessionID: string;
+}
+
+// Custom tool definition. Args are a zod shape in the OpenCode API;
+// these tools take none, so the plugin needs no zod dependency.
+interface ToolDefinition {
+  description: string;
+  args: Record<string, never>;
+  execute: (args: Record<string, never>, context: ToolContext) => Promise<string>;
+}
+
+// Chat message hook types (chat.message)
+interface ChatMessageInput {
+  sessionID?: string;
+  session_id?: string;
+}
+
+interface MessagePart {
+  type: string;
+  text?: string;
+  synthetic?: boolean;
+  [key: string]: unknown;
+}
+
+interface ChatMessageOutput {
+  message?: Record<string, unknown>;
+  parts: MessagePart[];
+}
+
+// Event payload type; OpenCode puts the session in properties
 interface EventPayload {
   type: string;
+  properties?: {
+    sessionID?: string;
+    info?: { id?: string };
+  };
   sessionID?: string;
   session_id?: string;
 }
 
+// Pending session writes are flushed once per process on exit
+let exitFlushRegistered = false;
+
 /**
  * Extract session ID from various input formats.
  */
@@ -69,6 +179,41 @@ function extractSessionId(input: { sessionID?: string; session_id?: string }): s
   return input.sessionID ?? input.session_id ?? "default";
 }
 
+/**
+ * Extract the session ID of a session event, or null if it names none.
+ * session.deleted carries the session as properties.info.
+ */
+function extractEventSessionId(event: EventPayload): string | null {
+  return event.properties?.sessionID ?? event.properties?.info?.id ?? event.sessionID ?? event.session_id ?? null;
+}
+
+
+/**
+ * Get the user-written text of a chat message.
+ */
+function getMessageText(parts: MessagePart[]): string {
+  return parts
+    .filter((part) => part.type === "text" && !part.synthetic && typeof part.text === "string")
+    .map((part) => part.text)
+    .join("\n");
+}
+
+/**
+ * Build a synthetic text part carrying the identifiers of the message's first part.
+ */
+function createSyntheticPart(parts: MessagePart[], text: string): MessagePart {
+  const template = parts.find((part) => part.type === "text") ?? parts[0];
+  const part: MessagePart = { type: "text", text, synthetic: true };
+  for (const key of ["sessionID", "messageID"]) {
+    if (template?.[key] !== undefined) {
+      part[key] = template[key];
+    }
+  }
+  if (typeof template?.id === "string") {
+    part.id = `${template.id}-prompts`;
+  }
+  return part;
+}
 
 /**
  * OpenCode Prompts Plugin
@@ -79,57 +224,395 @@ function extractSessionId(input: { sessionID?: string; session_id?: string }): s
 export const OpenCodePromptsPlugin = async (ctx: PluginContext) => {
   const projectDir = ctx.project?.directory ?? ctx.directory;
 
+  const config = loadPluginConfig(projectDir);
+
+  // Sweep stale session files left behind when OpenCode was killed
+  const sweep = (): void => {
+    const { removed } = sweepStaleSessions({ projectDir, ttlHours: config.gc.ttlHours });
+    if (removed.length > 0) {
+      const summary = removed.map((entry) => `${entry.session_id} (${entry.reason})`).join(", ");
+      console.log(`[opencode-prompts] Removed stale session state: ${summary}`);
+    }
+  };
+  sweep();
+  if (config.gc.intervalMinutes > 0) {
+    setInterval(sweep, config.gc.intervalMinutes * 60 * 1000).unref?.();
+  }
+
+  // Restore chain progress persisted before a restart or crash
+  configureSessionPersistence(config.persistence);
+  if (config.persistence.enabled) {
+    const restored = loadAllSessionStates(projectDir);
+    if (restored.length > 0) {
+      console.log(`[opencode-prompts] Restored chain state for ${restored.length} session(s)`);
+    }
+    if (!exitFlushRegistered) {
+      process.on("exit", () => flushSessionStates());
+      exitFlushRegistered = true;
+    }
+  }
+
+  // Last strategy used to parse prompt_engine output (detects format drift)
+  let lastParseStrategy: ParseStrategy | null = null;
+
+  // Warnings raised in tool.execute.before, injected by tool.execute.after (per session)
+  const pendingWarnings = new Map<string, string[]>();
+
+  const queueWarning = (sessionId: string, warning: string | null): void => {
+    if (!warning) return;
+    console.warn(`[opencode-prompts] ${warning}`);
+    pendingWarnings.set(sessionId, [...(pendingWarnings.get(sessionId) ?? []), warning]);
+  };
+
+  /**
+   * Update shell verification state when a bash run matches a pending verify command.
+   */
+  const observeShellRun = (input: ToolExecuteInput): { context: string } | undefined => {
+    const command = input.args?.command;
+    if (typeof command !== "string") {
+      return;
+    }
+
+    const sessionId = extractSessionId(input);
+    const state = listSessionChains(sessionId, projectDir).find(
+      (chain) => chain.pending_shell_verify && matchesVerifyCommand(command, chain.pending_shell_verify)
+    );
+    if (!state) {
+      return;
+    }
+
+    const exitCode = typeof input.metadata?.exit === "number" ? input.metadata.exit : null;
+    const escalated = recordShellVerifyRun(
+      state,
+      { command, exitCode, output: input.metadata?.output ?? "" },
+      config.shellVerify
+    );
+    transitionChain(state, deriveChainStatus(state), "shell verify run");
+
+    appendTimelineEvent(sessionId, {
+      type: "shell_verify",
+      chain_id: state.chain_id,
+      prompt_id: state.last_prompt_id || undefined,
+      command,
+      attempt: state.shell_verify_attempts,
+      passed: state.shell_verify_last_run?.passed ?? undefined,
+    }, projectDir);
+
+    // Save without changing the active chain
+    const key = getChainKey(state);
+    updateSession(sessionId, (session) => {
+      session.chains[key] = state;
+    }, projectDir);
+
+    const lines = [formatVerifyRun(state)];
+    if (escalated) {
+      lines.push(formatVerifyEscalation(state));
+    }
+    return { context: lines.join("\n") };
+  };
+
   console.log("[opencode-prompts] Plugin loaded");
 
+  const tool: Record<string, ToolDefinition> = {
+    chain_status: {
+      description:
+        "Show the current claude-prompts chain step, pending gate, gate criteria " +
+        "and shell verification state for this session.",
+      args: {},
+      execute: async (_args, context) => getChainStatus(extractSessionId(context), projectDir),
+    },
+    chain_reset: {
+      description:
+        "Abandon the active claude-prompts chain and clear its gate and shell verification state. " +
+        "Only use when the user asks to stop or restart a stuck chain.",
+      args: {},
+      execute: async (_args, context) => resetActiveChain(extractSessionId(context), projectDir),
+    },
+    gate_list: {
+      description: "List the quality gates defined in the claude-prompts gates cache.",
+      args: {},
+      execute: async (_args, context) => listGates(extractSessionId(context), projectDir),
+    },
+  };
+
   return {
+    /**
+     * Custom tools: chain_status, chain_reset, gate_list
+     */
+    tool,
+
+    /**
+     * Hook: Chat message
+     *
+     * Detects `>>prompt_id key:"value"` commands (and `-->` chains) in user
+     * messages and instructs the agent to run them through prompt_engine.
+     * Otherwise, suggests relevant prompts and gates while no chain is active.
+     * Equivalent to Claude Code's UserPromptSubmit hook.
+     */
+    "chat.message": async (input: ChatMessageInput, output: ChatMessageOutput) => {
+      const text = getMessageText(output.parts);
+      const promptsCache = loadPromptsCache(projectDir);
+      const parsed = parsePromptCommand(text);
+
+      if (parsed) {
+        // Only act on prompt ids the MCP server knows about
+        const resolved = resolvePromptCommand(parsed, promptsCache);
+        const prompts = resolved.flatMap(([, prompt]) => (prompt ? [prompt] : []));
+        if (prompts.length < resolved.length) {
+          const unknown = resolved.filter(([, prompt]) => !prompt).map(([step]) => step.prompt_id);
+          console.log(`[opencode-prompts] Unknown prompt(s) in message: ${unknown.join(", ")}`);
+          return;
+        }
+
+        output.parts.push(createSyntheticPart(output.parts, formatPromptInstruction(parsed, prompts)));
+        return;
+      }
+
+      // Suggestions would distract from a chain already in progress
+      const sessionId = extractSessionId(input);
+      if (!config.suggestions.enabled || !promptsCache || listSessionChains(sessionId, projectDir).length > 0) {
+        return;
+      }
+
+      const hint = formatPromptSuggestions(
+        suggestPrompts(text, config.suggestions, promptsCache, loadGatesCache(projectDir))
+      );
+      if (hint) {
+        output.parts.push(createSyntheticPart(output.parts, hint));
+      }
+    },
+
     /**
      * Hook: Before tool execution (gate enforcement)
      *
-     * Blocks prompt_engine calls when a FAIL gate verdict is pending
-     * or when a gate response is required but missing.
+     * Blocks prompt_engine calls when a FAIL gate verdict is pending,
+     * when a PASS lacks the configured evidence, or when a gate
+     * response is required but missing. The configured
+     * gate policy can downgrade a block to a warning or disable it.
+     * With the gate lock enabled, file-modifying tools are denied while
+     * a gate review is pending.
      * Equivalent to Claude Code's PreToolUse / Gemini's BeforeTool hook.
      */
     "tool.execute.before": async (input: ToolExecuteInput, output: ToolExecuteOutput) => {
-      // Only enforce gates on prompt_engine calls
+      // Other tools are only checked against the gate lock
       if (!input.tool?.includes("prompt_engine")) {
+        if (config.gateLock.enabled && input.tool) {
+          const chains = listSessionChains(extractSessionId(input), projectDir);
+          const locked = findGateLock(input.tool, output.args ?? input.args, chains, config.gateLock);
+          if (locked) {
+            throw new Error(formatGateLockDenial(input.tool, locked));
+          }
+        }
         return;
       }
 
       const sessionId = extractSessionId(input);
-      const state = loadSessionState(sessionId, projectDir);
+
+      // Continuations that forgot chain_id would start a new run on the server
+      if (config.continuation.injectChainId && output.args && !input.args?.chain_id) {
+        const active = listSessionChains(sessionId, projectDir)[0] ?? null;
+        const injected = injectContinuationChainId(output.args, active);
+        if (injected) {
+          console.log(`[opencode-prompts] Injected chain_id ${injected} into prompt_engine continuation`);
+          appendTimelineEvent(sessionId, {
+            type: "arg_injected",
+            chain_id: injected,
+            prompt_id: active?.last_prompt_id || undefined,
+            arg: "chain_id",
+            value: injected,
+          }, projectDir);
+        }
+      }
+
+      // Enforce against the chain being continued, or the active chain when none is named.
+      // A chain_id the session doesn't track never falls back to another chain.
+      const chainId = output.args?.chain_id ?? input.args?.chain_id;
+      const state = typeof chainId === "string" && chainId
+        ? loadSessionState(sessionId, projectDir, chainId)
+        : loadSessionState(sessionId, projectDir);
+
+      // Read gate_verdict from tool output args (OpenCode's pre-execution view)
+      const verdict = parseGateVerdict(
+        output.args?.gate_verdict ?? input.args?.gate_verdict,
+        state?.gate_criteria
+      );
+
+      // Audit every verdict seen, whether or not a gate is tracked, including
+      // calls rejected before the gate is checked
+      const auditVerdict = (blocked: boolean): void => {
+        if (!verdict) return;
+        appendGateAudit({
+          session_id: sessionId,
+          chain_id: state?.chain_id ?? (typeof chainId === "string" ? chainId : ""),
+          gate: state?.pending_gate ?? null,
+          verdict: verdict.verdict,
+          reason: verdict.reason,
+          criteria: state?.gate_criteria ?? [],
+          criteria_results: verdict.criteria,
+          blocked,
+          raw: verdict.raw,
+        }, projectDir);
+      };
+      const rejectCall = (message: string): Error => {
+        auditVerdict(true);
+        return new Error(message);
+      };
+
+      // Block continuing a chain whose verification budget is used up
+      if (
+        state?.shell_verify_outcome === "escalated" &&
+        config.shellVerify.escalation === "block" &&
+        typeof chainId === "string" &&
+        chainId
+      ) {
+        throw rejectCall(
+          `${formatVerifyEscalation(state)} The chain is blocked until the user decides how to continue.`
+        );
+      }
+
+      let command = output.args?.command ?? input.args?.command;
+
+      // Fill defaults and coerce types, rewriting the command the server receives
+      if (config.promptArgs.normalize && output.args && typeof command === "string" && command.trim()) {
+        const normalized = normalizePromptCommand(command, loadPromptsCache(projectDir));
+        if (normalized.changes.length > 0) {
+          output.args.command = normalized.command;
+          command = normalized.command;
+          for (const change of normalized.changes) {
+            appendTimelineEvent(sessionId, {
+              type: "arg_normalized",
+              chain_id: typeof chainId === "string" ? chainId : "",
+              prompt_id: change.prompt_id,
+              arg: change.arg,
+              value: formatArgumentChange(change),
+            }, projectDir);
+          }
+        }
+      }
+
+      // Reject arguments the prompts cache says the server will refuse
+      if (config.promptArgs.validate && typeof command === "string" && command.trim()) {
+        const argError = checkPromptCommandArgs(command, loadPromptsCache(projectDir));
+        if (argError) {
+          throw rejectCall(argError);
+        }
+      }
+
+      // A new command without chain_id would leave the open chain behind.
+      // A call carrying a gate verdict answers the open chain instead.
+      const openChain = listSessionChains(sessionId, projectDir)[0];
+      if (
+        config.openChains.policy !== "off" &&
+        openChain &&
+        !verdict &&
+        typeof command === "string" &&
+        command.trim() &&
+        !(typeof chainId === "string" && chainId)
+      ) {
+        const conflict = formatOpenChainConflict(openChain, command);
+        if (config.openChains.policy === "block") {
+          throw rejectCall(conflict);
+        }
+        if (config.openChains.policy === "warn") {
+          queueWarning(sessionId, conflict);
+        } else if (abandonChain(sessionId, openChain, `new prompt: ${command.trim()}`, projectDir)) {
+          const abandonedId = openChain.chain_id || "unnamed";
+          queueWarning(
+            sessionId,
+            `[Chain] ${abandonedId} abandoned for a new prompt; resume with prompt_engine(chain_id:"${abandonedId}")`
+          );
+          return;
+        }
+      }
+
+      const isFail = verdict?.verdict === "FAIL";
+      const isUnknown = verdict?.verdict === "UNKNOWN";
+      const mode = resolveGateEnforcement(config.gatePolicy, {
+        gate: state?.pending_gate,
+        promptId: state?.last_prompt_id,
+      });
+      const missingEvidence = verdict && state?.pending_gate
+        ? checkGateEvidence(verdict, resolveEvidenceRules(config.gateEvidence, state.pending_gate), state)
+        : [];
+      const blocked =
+        (isFail || isUnknown || missingEvidence.length > 0) && Boolean(state?.pending_gate) && mode === "strict";
+
+      auditVerdict(blocked);
 
       if (!state?.pending_gate) {
         return;
       }
 
-      // Read gate_verdict from tool output args (OpenCode's pre-execution view)
-      const verdict = output.args?.gate_verdict ?? input.args?.gate_verdict;
+      if (verdict) {
+        appendTimelineEvent(sessionId, {
+          type: "verdict",
+          chain_id: state.chain_id,
+          prompt_id: state.last_prompt_id || undefined,
+          gate: state.pending_gate,
+          verdict: verdict.raw,
+          blocked,
+        }, projectDir);
+
+        // Missing evidence throws in strict mode, leaving the gate pending.
+        // In warn mode the call goes through, so the PASS below still clears it.
+        if (missingEvidence.length > 0) {
+          queueWarning(sessionId, enforceGate(mode, formatEvidenceRejection(state.pending_gate, missingEvidence)));
+        }
+
+        // PASS clears the gate; FAIL keeps the chain waiting at it. Either way
+        // the chain records the verdict and which criteria passed.
+        if (verdict.verdict !== "UNKNOWN") {
+          const next = applyGateVerdict({ ...state, last_gate_verdict: verdict }, verdict.verdict === "PASS");
+          if (next) {
+            saveSessionState(sessionId, next, projectDir);
+          }
+        }
+      }
+
+      // A verdict that reads as neither PASS nor FAIL must not slip through
+      if (isUnknown) {
+        queueWarning(sessionId, enforceGate(
+          mode,
+          `Gate "${state.pending_gate}" verdict not understood: ${JSON.stringify(verdict.raw)}. ` +
+            `Respond with: GATE_REVIEW: PASS|FAIL - <reason>`
+        ));
+        return;
+      }
 
       // Block FAIL verdicts — agent must fix issues before continuing
-      if (typeof verdict === "string" && verdict.toUpperCase().includes("FAIL")) {
-        throw new Error(
-          `Gate FAIL: "${verdict}". Fix the issues and retry with GATE_REVIEW: PASS - <reason>.`
-        );
+      if (isFail) {
+        const results = formatCriteriaResults(verdict.criteria);
+        queueWarning(sessionId, enforceGate(
+          mode,
+          `Gate FAIL: "${verdict.reason || verdict.raw}"${results ? ` (${results})` : ""}. ` +
+            `Fix the issues and retry with GATE_REVIEW: PASS - <reason>.`
+        ));
+        return;
       }
 
       // Block if gate is pending but no verdict provided (resuming chain without responding)
-      const chainId = output.args?.chain_id ?? input.args?.chain_id;
       if (state.pending_gate && !verdict && chainId) {
-        throw new Error(
+        queueWarning(sessionId, enforceGate(
+          mode,
           `Gate "${state.pending_gate}" requires a response. ` +
           `Respond with: GATE_REVIEW: PASS|FAIL - <reason>`
-        );
+        ));
       }
     },
 
     /**
      * Hook: After tool execution
      *
-     * Tracks chain/gate state from prompt_engine responses.
+     * Tracks chain/gate state from prompt_engine responses, and shell
+     * verification results from the agent's own bash runs.
      * Equivalent to Claude Code's PostToolUse hook.
      */
     "tool.execute.after": async (input: ToolExecuteInput) => {
-      // Only process prompt_engine calls
+      if (isShellTool(input.tool)) {
+        return observeShellRun(input);
+      }
+
+      // Otherwise only process prompt_engine calls
       if (!input.tool?.includes("prompt_engine")) {
         return;
       }
@@ -137,10 +620,35 @@ export const OpenCodePromptsPlugin = async (ctx: PluginContext) => {
       const sessionId = extractSessionId(input);
       const response = input.metadata?.output ?? "";
 
+      // Build output lines for context injection, starting with gate policy warnings
+      const outputLines: string[] = pendingWarnings.get(sessionId) ?? [];
+      pendingWarnings.delete(sessionId);
+
       // Parse response for chain/gate state
-      const state = parsePromptEngineResponse(response);
+      const parsed = parsePromptEngineResponseWithStrategy(response);
+      for (const warning of parsed.warnings) {
+        console.warn(`[opencode-prompts] Chain state block ignored (${warning})`);
+      }
+      if (parsed.strategy !== "none") {
+        if (lastParseStrategy && lastParseStrategy !== parsed.strategy) {
+          console.warn(
+            `[opencode-prompts] prompt_engine output format changed: ${lastParseStrategy} -> ${parsed.strategy}`
+          );
+        }
+        lastParseStrategy = parsed.strategy;
+      }
+
+      const state = parsed.state;
       if (!state) {
-        return;
+        // A gate PASS on the last step completes the chain without a parsable final response
+        const chainId = input.args?.chain_id;
+        const target = typeof chainId === "string" && chainId
+          ? loadSessionState(sessionId, projectDir, chainId)
+          : loadSessionState(sessionId, projectDir);
+        if (target?.status === "completed") {
+          outputLines.push(formatCompletionSummary(completeChain(sessionId, target, projectDir)));
+        }
+        return outputLines.length > 0 ? { context: outputLines.join("\n") } : undefined;
       }
 
       // Extract chain_id from tool args if available (higher priority)
@@ -149,11 +657,49 @@ export const OpenCodePromptsPlugin = async (ctx: PluginContext) => {
         state.chain_id = inputChainId;
       }
 
-      // Save state for this session
+      // Continuing an abandoned chain resumes it from its recorded state
+      const previous =
+        loadSessionState(sessionId, projectDir, getChainKey(state)) ??
+        (typeof inputChainId === "string" && inputChainId
+          ? takeAbandonedChain(sessionId, getChainKey(state), projectDir)
+          : null);
+
+      // The last verdict stays on the chain until the next one is submitted
+      state.last_gate_verdict = previous?.last_gate_verdict ?? null;
+
+      // Keep the arguments of the last command that had any (continuations have none)
+      const command = input.args?.command;
+      const invocation = typeof command === "string" ? parseEngineCommand(command)?.steps[0] : undefined;
+      state.last_prompt_args = invocation && Object.keys(invocation.args).length > 0
+        ? invocation.args
+        : previous?.last_prompt_args ?? {};
+      // Responses don't always name the prompt; the command does, and continuations keep the chain's
+      state.last_prompt_id = state.last_prompt_id || invocation?.prompt_id || previous?.last_prompt_id || "";
+
+      // Count verify attempts against the budget before recording transitions
+      const escalated = applyShellVerifyBudget(previous, state, config.shellVerify);
+
+      // Rejected transitions leave the saved chain as it was
+      if (!applyChainResponse(previous, state)) {
+        return outputLines.length > 0 ? { context: outputLines.join("\n") } : undefined;
+      }
+
+      // Record step/gate/verify transitions against the chain's previous state
+      recordStateTransition(sessionId, previous, state, projectDir);
+
+      // Save state for this chain (other chains in the session are kept)
       saveSessionState(sessionId, state, projectDir);
 
-      // Build output lines for context injection
-      const outputLines: string[] = [];
+      // Archive and clear a completed chain, leaving a short summary
+      if (state.status === "completed") {
+        outputLines.push(formatCompletionSummary(completeChain(sessionId, state, projectDir)));
+      }
+
+      if (escalated) {
+        outputLines.push(formatVerifyEscalation(state));
+      } else if (state.pending_shell_verify && state.shell_verify_last_run) {
+        outputLines.push(formatVerifyRun(state));
+      }
 
       // Gate reminder
       if (state.pending_gate) {
@@ -178,6 +724,16 @@ export const OpenCodePromptsPlugin = async (ctx: PluginContext) => {
         }
       }
 
+      // Other chains still open in this session
+      const otherChains = listSessionChains(sessionId, projectDir)
+        .filter((chain) => getChainKey(chain) !== getChainKey(state));
+      if (otherChains.length > 0) {
+        const summary = otherChains
+          .map((chain) => `${chain.chain_id || "unnamed"} (${chain.current_step}/${chain.total_steps})`)
+          .join(", ");
+        outputLines.push(`[Chains] Also open: ${summary}`);
+      }
+
       // Return context for injection
       if (outputLines.length > 0) {
         return {
@@ -197,25 +753,46 @@ export const OpenCodePromptsPlugin = async (ctx: PluginContext) => {
       output: CompactionOutput
     ) => {
       const sessionId = extractSessionId(input);
-      const state = loadSessionState(sessionId, projectDir);
 
-      if (!state) {
+      // Every chain with active chain/gate/verify state
+      const chains = listSessionChains(sessionId, projectDir);
+      if (chains.length === 0) {
         return;
       }
 
-      // Check if there's active chain/gate/verify state
-      const hasActive =
-        state.current_step > 0 ||
-        state.pending_gate !== null ||
-        state.pending_shell_verify !== null;
+      // Format and inject chain state preservation
+      const reminder = formatSessionReminder(chains, "full");
+      output.context.push(`## Chain State (preserve across compaction)\n${reminder}`);
 
-      if (!hasActive) {
-        return;
+      const timeline = formatTimelineSummary(getSessionTimeline(sessionId, projectDir));
+      if (timeline) {
+        output.context.push(`## Chain Timeline (recent)\n${timeline}`);
       }
 
-      // Format and inject chain state preservation
-      const reminder = formatChainReminder(state, "full");
-      output.context.push(`## Chain State (preserve across compaction)\n${reminder}`);
+      // Configured compaction prompt instructions for keeping chain state
+      const { context, prompt } = buildCompactionPrompt(config.compaction, chains);
+      if (context) {
+        output.context.push(context);
+      }
+      if (prompt) {
+        output.prompt = prompt;
+      }
+    },
+
+    /**
+     * Hook: System prompt transform
+     *
+     * On the first model turn after a compaction, re-injects the full chain
+     * state in case the summary dropped it. Happens once per compaction.
+     */
+    "experimental.chat.system.transform": async (
+      input: SystemTransformInput,
+      output: SystemTransformOutput
+    ) => {
+      const restore = takePostCompactionRestore(extractSessionId(input), projectDir);
+      if (restore) {
+        output.system.push(restore);
+      }
     },
 
     /**
@@ -226,8 +803,17 @@ export const OpenCodePromptsPlugin = async (ctx: PluginContext) => {
         console.log("[opencode-prompts] Session created");
       }
 
-      if (event.type === "session.deleted") {
-        const sessionId = extractSessionId(event);
+      const sessionId = extractEventSessionId(event);
+
+      if (event.type === "session.compacted") {
+        markSessionCompacted(sessionId ?? "default", projectDir);
+      }
+
+      if (event.type === "session.idle") {
+        flushSessionStates(sessionId ?? undefined);
+      }
+
+      if (event.type === "session.deleted" && sessionId) {
         clearSessionState(sessionId, projectDir);
         console.log(`[opencode-prompts] Session ${sessionId} cleaned up`);
       }
@@ -0,0 +1,72 @@
+/**
+ * GC command for opencode-prompts CLI.
+ *
+ * Removes stale chain state files from <workspace>/server/cache/sessions/:
+ * sessions not written within the TTL, or whose chains have all finished.
+ */
+
+import { resolve } from "node:path";
+import { loadPluginConfig } from "../../lib/plugin-config.js";
+import { sweepStaleSessions } from "../../lib/session-gc.js";
+
+/**
+ * Sweep stale session state for the current project.
+ */
+export async function gc(args: string[]): Promise<void> {
+  if (args.includes("--help") || args.includes("-h")) {
+    showGcHelp();
+    return;
+  }
+
+  const projectDir = resolve(process.cwd());
+  const dryRun = args.includes("--dry-run");
+
+  // Same TTL the plugin sweeps with unless overridden
+  let ttlHours = loadPluginConfig(projectDir).gc.ttlHours;
+  const ttlIndex = args.indexOf("--ttl-hours");
+  if (ttlIndex !== -1) {
+    ttlHours = Number(args[ttlIndex + 1]);
+    if (!Number.isFinite(ttlHours) || ttlHours < 0) {
+      console.error(`Invalid --ttl-hours value: ${args[ttlIndex + 1] ?? "(missing)"}`);
+      process.exit(1);
+    }
+  }
+
+  const result = sweepStaleSessions({ projectDir, ttlHours, dryRun });
+
+  if (result.removed.length === 0) {
+    console.log(`No stale session state found (${result.kept} session(s) kept).`);
+    return;
+  }
+
+  console.log(dryRun ? "Would remove:" : "Removed:");
+  for (const entry of result.removed) {
+    console.log(`  • ${entry.session_id} (${entry.reason})`);
+  }
+  console.log(`\n${result.kept} session(s) kept.`);
+}
+
+function showGcHelp(): void {
+  console.log(`
+opencode-prompts gc - Remove stale chain state files
+
+Usage: opencode-prompts gc [options]
+
+Options:
+  --ttl-hours <n>  Remove sessions not written for n hours (default: gc.ttlHours
+                   from the plugin config, 72 if unset)
+  --dry-run        List what would be removed without removing it
+  --help, -h       Show this help message
+
+Description:
+  Session state lives in <workspace>/server/cache/sessions/ and is normally
+  removed when an OpenCode session is deleted. Sessions from killed OpenCode
+  processes are left behind; this removes them, along with sessions whose
+  chains have all finished.
+
+Examples:
+  opencode-prompts gc                 # Sweep with the configured TTL
+  opencode-prompts gc --ttl-hours 24  # Remove sessions idle for a day
+  opencode-prompts gc --dry-run       # Preview
+`);
+}
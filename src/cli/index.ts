@@ -8,10 +8,12 @@
  * Usage:
  *   npx opencode-prompts install   - Set up hooks in .claude/settings.json
  *   npx opencode-prompts uninstall - Remove hooks from .claude/settings.json
+ *   npx opencode-prompts gc        - Remove stale chain state files
  */
 
 import { install } from "./commands/install.js";
 import { uninstall } from "./commands/uninstall.js";
+import { gc } from "./commands/gc.js";
 
 const command = process.argv[2];
 const args = process.argv.slice(3);
@@ -25,6 +27,7 @@ Usage: opencode-prompts <command> [options]
 Commands:
   install    Set up hooks in .claude/settings.json
   uninstall  Remove hooks from .claude/settings.json
+  gc         Remove stale chain state files
 
 Options:
   --help, -h    Show this help message
@@ -73,6 +76,10 @@ async function main(): Promise<void> {
       await uninstall(args);
       break;
 
+    case "gc":
+      await gc(args);
+      break;
+
     default:
       console.error(`Unknown command: ${command}`);
       showUsage();
@@ -0,0 +1,114 @@
+/**
+ * Abandoned chain tracking for OpenCode prompts plugin.
+ *
+ * A chain is abandoned when the agent starts a new prompt while it is open
+ * (openChains policy "abandon") or calls chain_reset. Its last state is kept
+ * in SessionState.abandoned so continuing its chain_id later resumes it.
+ */
+
+import type { AbandonedChain, ChainState } from "./types.js";
+import { transitionChain } from "./chain-state-machine.js";
+import { getChainKey, loadSession, removeChainState, updateSession } from "./session-state.js";
+
+/**
+ * Oldest records are dropped beyond this many per session.
+ */
+export const MAX_ABANDONED_CHAINS = 20;
+
+/**
+ * Abandon a chain: record it for resuming and remove it from the session.
+ *
+ * @param reason - What abandoned it, e.g. "chain_reset"
+ * @returns false if the chain's status does not allow abandoning it
+ */
+export function abandonChain(
+  sessionId: string,
+  state: ChainState,
+  reason: string,
+  projectDir?: string
+): boolean {
+  const record: AbandonedChain = {
+    chain: { ...state },
+    abandoned_at: new Date().toISOString(),
+    reason,
+  };
+  if (!transitionChain(state, "abandoned", reason)) {
+    return false;
+  }
+
+  const key = getChainKey(record.chain);
+  updateSession(
+    sessionId,
+    (session) => {
+      session.abandoned = session.abandoned.filter((entry) => getChainKey(entry.chain) !== key);
+      session.abandoned.push(record);
+      if (session.abandoned.length > MAX_ABANDONED_CHAINS) {
+        session.abandoned.splice(0, session.abandoned.length - MAX_ABANDONED_CHAINS);
+      }
+    },
+    projectDir
+  );
+  removeChainState(sessionId, key, projectDir);
+  return true;
+}
+
+/**
+ * List a session's abandoned chains, most recent last.
+ */
+export function listAbandonedChains(sessionId: string, projectDir?: string): AbandonedChain[] {
+  return loadSession(sessionId, projectDir)?.abandoned ?? [];
+}
+
+/**
+ * Remove an abandoned chain's record because it is being resumed.
+ *
+ * @returns The chain's state when it was abandoned, or null if not abandoned
+ */
+export function takeAbandonedChain(
+  sessionId: string,
+  chainKey: string,
+  projectDir?: string
+): ChainState | null {
+  const record = listAbandonedChains(sessionId, projectDir).find(
+    (entry) => getChainKey(entry.chain) === chainKey
+  );
+  if (!record) {
+    return null;
+  }
+
+  updateSession(
+    sessionId,
+    (session) => {
+      session.abandoned = session.abandoned.filter((entry) => getChainKey(entry.chain) !== chainKey);
+    },
+    projectDir
+  );
+  return record.chain;
+}
+
+/**
+ * Describe an open chain a new prompt would leave behind.
+ */
+export function formatOpenChainConflict(state: ChainState, command: string): string {
+  const chainId = state.chain_id || "unnamed";
+  return (
+    `[Chain] ${chainId} is still open at step ${state.current_step}/${state.total_steps} ` +
+    `but ${JSON.stringify(command)} starts a new prompt. ` +
+    `Continue it with prompt_engine(chain_id:"${chainId}") or call chain_reset to abandon it.`
+  );
+}
+
+/**
+ * List abandoned chains with how to resume them.
+ */
+export function formatAbandonedChains(records: AbandonedChain[]): string {
+  return records
+    .map(({ chain, abandoned_at, reason }) => {
+      const chainId = chain.chain_id || "unnamed";
+      return (
+        `- ${chainId} at step ${chain.current_step}/${chain.total_steps} (${reason}, ${abandoned_at}) ` +
+        `→ prompt_engine(chain_id:"${chainId}") to resume`
+      );
+    })
+    .join("\n");
+}
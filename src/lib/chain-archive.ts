@@ -0,0 +1,172 @@
+/**
+ * Completed chain archive for OpenCode prompts plugin.
+ * When a chain completes, its summary and final state are appended to
+ * <workspace>/runtime-state/chain-archive.jsonl and its session state is cleared.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { ChainState } from "./types.js";
+import { parseGateVerdict } from "./gate-verdict.js";
+import { getChainKey, removeChainState } from "./session-state.js";
+import { getSessionTimeline } from "./timeline.js";
+import { getRuntimeStateDir } from "./workspace.js";
+
+// Resolve fallback runtime-state directory
+let FALLBACK_RUNTIME_DIR: string;
+try {
+  const __filename = fileURLToPath(import.meta.url);
+  const __dirname = dirname(__filename);
+  FALLBACK_RUNTIME_DIR = join(__dirname, "..", "..", "runtime-state");
+} catch {
+  FALLBACK_RUNTIME_DIR = "./runtime-state";
+}
+
+export interface ChainCompletionSummary {
+  session_id: string;
+  chain_id: string;
+  prompt_id: string;
+  total_steps: number;
+  gates_passed: number;
+  gates_failed: number;
+  /** Verification attempts across all verify commands of the chain */
+  verify_attempts: number;
+  /** ISO 8601 timestamp of the chain's first timeline event (null if none) */
+  started_at: string | null;
+  /** ISO 8601 timestamp */
+  completed_at: string;
+  elapsed_ms: number | null;
+}
+
+export interface ChainArchiveEntry extends ChainCompletionSummary {
+  final_state: ChainState;
+}
+
+/**
+ * Get path to the chain archive.
+ */
+export function getChainArchivePath(projectDir?: string): string {
+  return join(getRuntimeStateDir(FALLBACK_RUNTIME_DIR, projectDir), "chain-archive.jsonl");
+}
+
+/**
+ * Summarize a completed chain from its timeline.
+ */
+export function summarizeCompletedChain(
+  sessionId: string,
+  state: ChainState,
+  projectDir?: string,
+  now = Date.now()
+): ChainCompletionSummary {
+  const events = getSessionTimeline(sessionId, projectDir, { chain_id: state.chain_id });
+
+  let gatesPassed = 0;
+  let gatesFailed = 0;
+  // Highest attempt seen per verify command; bash runs and responses can report the same attempt
+  const attempts = new Map<string, number>();
+  for (const event of events) {
+    if (event.type === "verdict" && event.verdict) {
+      const verdict = parseGateVerdict(event.verdict)?.verdict;
+      // A blocked PASS (e.g. rejected for missing evidence) did not clear the gate
+      if (verdict === "PASS" && !event.blocked) gatesPassed++;
+      if (verdict === "FAIL") gatesFailed++;
+    }
+    if (event.type === "shell_verify" && event.command) {
+      attempts.set(event.command, Math.max(attempts.get(event.command) ?? 0, event.attempt ?? 1));
+    }
+  }
+
+  const startedAt = events[0]?.timestamp ?? null;
+  return {
+    session_id: sessionId,
+    chain_id: state.chain_id,
+    prompt_id: state.last_prompt_id,
+    total_steps: state.total_steps,
+    gates_passed: gatesPassed,
+    gates_failed: gatesFailed,
+    verify_attempts: [...attempts.values()].reduce((sum, count) => sum + count, 0),
+    started_at: startedAt,
+    completed_at: new Date(now).toISOString(),
+    elapsed_ms: startedAt ? now - Date.parse(startedAt) : null,
+  };
+}
+
+/**
+ * Format a duration as "1h 3m", "12m 5s" or "45s".
+ */
+function formatElapsed(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+}
+
+/**
+ * One-line completion summary, e.g.
+ * "[Chain] chain-review#1 complete: 4 steps | gates: 2 passed, 1 failed | verify attempts: 3 | 12m 5s"
+ */
+export function formatCompletionSummary(summary: ChainCompletionSummary): string {
+  const parts = [
+    `${summary.total_steps} steps`,
+    `gates: ${summary.gates_passed} passed, ${summary.gates_failed} failed`,
+    `verify attempts: ${summary.verify_attempts}`,
+  ];
+  if (summary.elapsed_ms !== null) {
+    parts.push(formatElapsed(summary.elapsed_ms));
+  }
+  return `[Chain] ${summary.chain_id || "unnamed"} complete: ${parts.join(" | ")}`;
+}
+
+/**
+ * Append a completed chain to the archive.
+ * Failures are reported to the console and never block the tool call.
+ */
+export function appendChainArchive(entry: ChainArchiveEntry, projectDir?: string): void {
+  const archivePath = getChainArchivePath(projectDir);
+  try {
+    mkdirSync(dirname(archivePath), { recursive: true });
+    appendFileSync(archivePath, JSON.stringify(entry) + "\n");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[opencode-prompts] Could not write chain archive: ${message}`);
+  }
+}
+
+/**
+ * Read archived chains, skipping malformed lines.
+ */
+export function readChainArchive(projectDir?: string): ChainArchiveEntry[] {
+  const archivePath = getChainArchivePath(projectDir);
+  if (!existsSync(archivePath)) {
+    return [];
+  }
+
+  const entries: ChainArchiveEntry[] = [];
+  for (const line of readFileSync(archivePath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as ChainArchiveEntry);
+    } catch {
+      // Skip malformed line
+    }
+  }
+  return entries;
+}
+
+/**
+ * Archive a completed chain and clear it from the session.
+ * Other chains in the session are kept.
+ */
+export function completeChain(
+  sessionId: string,
+  state: ChainState,
+  projectDir?: string
+): ChainCompletionSummary {
+  const summary = summarizeCompletedChain(sessionId, state, projectDir);
+  appendChainArchive({ ...summary, final_state: state }, projectDir);
+  removeChainState(sessionId, getChainKey(state), projectDir);
+  return summary;
+}
@@ -0,0 +1,106 @@
+/**
+ * Chain state machine for OpenCode prompts plugin.
+ *
+ * Each tracked chain has an explicit status. prompt_engine responses, gate
+ * verdicts, shell verify runs and chain_reset move it between statuses;
+ * transitions not listed in CHAIN_TRANSITIONS are rejected with a warning
+ * and leave the chain as it was.
+ */
+
+import type { ChainState, ChainStatus } from "./types.js";
+
+/**
+ * Allowed transitions, by current status. Staying in the same status (the
+ * next step of a running chain, a repeated final response) is always allowed.
+ */
+export const CHAIN_TRANSITIONS: Record<ChainStatus, readonly ChainStatus[]> = {
+  idle: ["running", "awaiting_gate", "verifying", "completed", "abandoned"],
+  running: ["awaiting_gate", "verifying", "completed", "abandoned", "failed"],
+  awaiting_gate: ["running", "verifying", "completed", "abandoned", "failed"],
+  verifying: ["running", "awaiting_gate", "completed", "abandoned", "failed"],
+  failed: ["running", "awaiting_gate", "verifying", "abandoned"],
+  completed: [],
+  abandoned: [],
+};
+
+/**
+ * Statuses a chain never leaves.
+ */
+export function isTerminalStatus(status: ChainStatus): boolean {
+  return CHAIN_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Status implied by a chain's step, gate and shell verify fields.
+ */
+export function deriveChainStatus(state: ChainState): ChainStatus {
+  if (state.pending_shell_verify && state.shell_verify_outcome === "escalated") {
+    return "failed";
+  }
+  if (state.pending_shell_verify) {
+    return "verifying";
+  }
+  if (state.pending_gate) {
+    return "awaiting_gate";
+  }
+  if (state.total_steps > 0 && state.current_step >= state.total_steps) {
+    return "completed";
+  }
+  return state.current_step > 0 ? "running" : "idle";
+}
+
+/**
+ * Whether a chain may move from one status to another.
+ */
+export function canTransition(from: ChainStatus, to: ChainStatus): boolean {
+  return from === to || CHAIN_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Move a chain to a new status.
+ * A rejected transition is logged and leaves state.status unchanged.
+ *
+ * @param reason - What triggered the transition, for the warning
+ * @returns false if the transition was rejected
+ */
+export function transitionChain(state: ChainState, to: ChainStatus, reason: string): boolean {
+  if (!canTransition(state.status, to)) {
+    console.warn(
+      `[opencode-prompts] Rejected chain transition for ${state.chain_id || "unnamed"}: ` +
+        `${state.status} -> ${to} (${reason})`
+    );
+    return false;
+  }
+  state.status = to;
+  return true;
+}
+
+/**
+ * Apply a parsed prompt_engine response to a chain.
+ * The response state starts from the previous status and moves to the one its fields imply.
+ *
+ * @param previous - Same chain before this response (null for a new chain)
+ * @param next - State parsed from the response; its status is set in place
+ * @returns false if the transition was rejected and next must not be saved
+ */
+export function applyChainResponse(previous: ChainState | null, next: ChainState): boolean {
+  next.status = previous?.status ?? "idle";
+  return transitionChain(next, deriveChainStatus(next), "prompt_engine response");
+}
+
+/**
+ * Apply a gate verdict to a chain awaiting it.
+ * PASS clears the pending gate; FAIL keeps the chain at the gate. A single
+ * gated prompt has no steps, so its PASS completes it.
+ *
+ * @returns The chain after the verdict, or null if the transition was rejected
+ */
+export function applyGateVerdict(state: ChainState, passed: boolean): ChainState | null {
+  if (!passed) {
+    return transitionChain(state, "awaiting_gate", "gate FAIL") ? state : null;
+  }
+
+  const next: ChainState = { ...state, pending_gate: null, gate_criteria: [] };
+  const status = deriveChainStatus(next);
+  return transitionChain(next, status === "idle" ? "completed" : status, "gate PASS") ? next : null;
+}
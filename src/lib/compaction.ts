@@ -0,0 +1,150 @@
+/**
+ * Compaction prompt and post-compaction state restore for OpenCode prompts plugin.
+ *
+ * experimental.session.compacting asks the summary to keep chain state, but
+ * the summary may still drop it. After session.compacted the session is
+ * marked, and the first model turn gets the full chain state re-injected
+ * once.
+ *
+ * The compaction prompt itself can also be extended or replaced with a
+ * template that asks for chain state to be kept word for word.
+ */
+
+import type { ChainState } from "./types.js";
+import type { CompactionPromptConfig, CompactionPromptMode } from "./plugin-config.js";
+import {
+  formatChainReminder,
+  formatSessionReminder,
+  listSessionChains,
+  loadSession,
+  updateSession,
+} from "./session-state.js";
+
+/**
+ * Built-in compaction prompt templates. Placeholders describe the active chain:
+ *   {{chain_id}}, {{step}}, {{gate}}, {{gate_criteria}}, {{shell_verify}}
+ * and {{chain_state}} holds the full reminder for every open chain.
+ */
+export const DEFAULT_COMPACTION_TEMPLATES: Record<Exclude<CompactionPromptMode, "off">, string> = {
+  extend: [
+    "A prompt chain is in progress. Copy the following into the summary word for word;",
+    "do not paraphrase ids, step numbers, gate names, criteria or commands.",
+    "Chain: {{chain_id}} (step {{step}})",
+    "Pending gate: {{gate}}",
+    "Gate criteria:",
+    "{{gate_criteria}}",
+    "Shell verify: {{shell_verify}}",
+  ].join("\n"),
+  replace: [
+    "Summarize this conversation so the work can continue in a new context:",
+    "the task, decisions made, files changed, and what remains to be done.",
+    "",
+    "Then add a \"Chain State\" section repeating the following word for word:",
+    "{{chain_state}}",
+    "Gate criteria:",
+    "{{gate_criteria}}",
+  ].join("\n"),
+};
+
+/**
+ * Fill a compaction template for the session's open chains (active first).
+ * Unknown placeholders are left as written.
+ */
+export function renderCompactionTemplate(template: string, chains: ChainState[]): string {
+  const active = chains[0];
+  const values: Record<string, string> = {
+    chain_id: active?.chain_id || "unnamed",
+    step: active && active.total_steps > 0 ? `${active.current_step}/${active.total_steps}` : "none",
+    gate: active?.pending_gate ?? "none",
+    gate_criteria: active?.gate_criteria.length
+      ? active.gate_criteria.map((criterion) => `- ${criterion}`).join("\n")
+      : "none",
+    shell_verify: active?.pending_shell_verify ?? "none",
+    chain_state: formatSessionReminder(chains, "full"),
+  };
+  return template.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * Compaction prompt changes for a session's open chains.
+ *
+ * @returns context to add to the default prompt ("extend"), or a prompt
+ *          replacing it ("replace"); empty when nothing applies
+ */
+export function buildCompactionPrompt(
+  config: CompactionPromptConfig,
+  chains: ChainState[]
+): { context?: string; prompt?: string } {
+  if (config.mode === "off" || chains.length === 0) {
+    return {};
+  }
+
+  const rendered = renderCompactionTemplate(config.template ?? DEFAULT_COMPACTION_TEMPLATES[config.mode], chains);
+  return config.mode === "replace" ? { prompt: rendered } : { context: rendered };
+}
+
+/**
+ * Mark a session as compacted; its state is re-injected on the next turn.
+ */
+export function markSessionCompacted(sessionId: string, projectDir?: string): void {
+  const compactedAt = new Date().toISOString();
+  updateSession(
+    sessionId,
+    (session) => {
+      session.compaction = { compacted_at: compactedAt, restored_at: null };
+    },
+    projectDir
+  );
+}
+
+/**
+ * Format a chain's full state for re-injection: reminder, gate criteria
+ * and the arguments of the last prompt.
+ */
+export function formatRestoredChain(state: ChainState): string {
+  const lines = [formatChainReminder(state, "full")];
+
+  if (state.pending_gate && state.gate_criteria.length > 0) {
+    lines.push("Gate criteria:");
+    lines.push(...state.gate_criteria.map((criterion) => `- ${criterion}`));
+  }
+
+  const args = Object.entries(state.last_prompt_args);
+  if (state.last_prompt_id && args.length > 0) {
+    const argText = args.map(([key, value]) => `${key}:${JSON.stringify(value)}`).join(" ");
+    lines.push(`Last prompt: >>${state.last_prompt_id} ${argText}`);
+  }
+
+  return lines.filter((line) => line.length > 0).join("\n");
+}
+
+/**
+ * Get the state to re-inject after a compaction and mark it restored,
+ * so later turns don't repeat it.
+ *
+ * @returns null if the session was not compacted, was already restored,
+ *          or has no active chains
+ */
+export function takePostCompactionRestore(sessionId: string, projectDir?: string): string | null {
+  const compaction = loadSession(sessionId, projectDir)?.compaction;
+  if (!compaction || compaction.restored_at) {
+    return null;
+  }
+
+  const restoredAt = new Date().toISOString();
+  updateSession(
+    sessionId,
+    (session) => {
+      if (session.compaction) {
+        session.compaction.restored_at = restoredAt;
+      }
+    },
+    projectDir
+  );
+
+  const chains = listSessionChains(sessionId, projectDir);
+  if (chains.length === 0) {
+    return null;
+  }
+  return `## Chain State (restored after compaction)\n${chains.map(formatRestoredChain).join("\n\n")}`;
+}
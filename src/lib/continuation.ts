@@ -0,0 +1,35 @@
+/**
+ * Continuation call handling for OpenCode prompts plugin.
+ * A prompt_engine call without a command continues a chain; if the agent
+ * forgot its chain_id, the server would treat it as a new run.
+ */
+
+import type { ChainState } from "./types.js";
+
+/**
+ * Whether prompt_engine args look like a chain continuation: no command,
+ * e.g. only a gate_verdict or user_response.
+ */
+export function isContinuationCall(args: Record<string, unknown>): boolean {
+  const command = args.command;
+  return typeof command !== "string" || command.trim() === "";
+}
+
+/**
+ * Fill in the chain's chain_id on a continuation call that omits it.
+ * Updates args in place.
+ *
+ * @returns The injected chain_id, or null if nothing was injected
+ */
+export function injectContinuationChainId(
+  args: Record<string, unknown>,
+  state: ChainState | null
+): string | null {
+  const present = args.chain_id;
+  if ((typeof present === "string" && present) || !state?.chain_id || !isContinuationCall(args)) {
+    return null;
+  }
+
+  args.chain_id = state.chain_id;
+  return state.chain_id;
+}
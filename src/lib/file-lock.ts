@@ -0,0 +1,145 @@
+/**
+ * Advisory file locking for OpenCode prompts plugin.
+ *
+ * Several OpenCode instances in one project share the session state
+ * directory. A lock is a `<path>.lock` file created exclusively and holding
+ * the owner's PID; locks whose owner has exited, or that are older than the
+ * stale timeout, are broken. A lock file that can't be read yet (created but
+ * not written) is only broken once its mtime is older than the stale timeout.
+ */
+
+import { closeSync, openSync, readFileSync, statSync, unlinkSync, writeSync } from "node:fs";
+import { hostname } from "node:os";
+
+export const DEFAULT_LOCK_TIMEOUT_MS = 2000;
+export const DEFAULT_LOCK_STALE_MS = 10_000;
+const LOCK_RETRY_MS = 20;
+
+export interface FileLockOptions {
+  /** Give up acquiring the lock after this long */
+  timeoutMs?: number;
+  /** Break locks older than this, even if the owner is still running */
+  staleMs?: number;
+}
+
+/**
+ * Content of a lock file.
+ */
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  acquired_at: number;
+}
+
+/**
+ * Block the current thread (all state access in this plugin is synchronous).
+ */
+function sleep(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+function readLockOwner(lockPath: string): LockOwner | null {
+  try {
+    return JSON.parse(readFileSync(lockPath, "utf-8")) as LockOwner;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Age of the lock file by mtime; 0 if it is gone (nothing to break).
+ */
+function lockFileAge(lockPath: string): number {
+  try {
+    return Date.now() - statSync(lockPath).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Whether a lock can be broken. Owners on other hosts are only judged by age.
+ */
+function isLockStale(lockPath: string, owner: LockOwner | null, staleMs: number): boolean {
+  if (!owner || typeof owner.pid !== "number") {
+    // The owner may still be between creating the file and writing it
+    return lockFileAge(lockPath) > staleMs;
+  }
+  if (Date.now() - owner.acquired_at > staleMs) {
+    return true;
+  }
+  return owner.hostname === hostname() && !isProcessAlive(owner.pid);
+}
+
+function tryAcquire(lockPath: string, owner: LockOwner): boolean {
+  let fd: number;
+  try {
+    fd = openSync(lockPath, "wx");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      return false;
+    }
+    throw error;
+  }
+  try {
+    writeSync(fd, JSON.stringify(owner));
+  } finally {
+    closeSync(fd);
+  }
+  return true;
+}
+
+/**
+ * Run fn while holding the lock for path.
+ *
+ * @throws Error if the lock is held by a live owner for longer than timeoutMs
+ */
+export function withFileLock<T>(path: string, fn: () => T, options: FileLockOptions = {}): T {
+  const lockPath = `${path}.lock`;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? DEFAULT_LOCK_STALE_MS;
+  const owner: LockOwner = { pid: process.pid, hostname: hostname(), acquired_at: Date.now() };
+  const deadline = Date.now() + timeoutMs;
+
+  while (!tryAcquire(lockPath, owner)) {
+    const current = readLockOwner(lockPath);
+    if (isLockStale(lockPath, current, staleMs)) {
+      // Only break the lock we judged stale, not one taken over in the meantime
+      if (JSON.stringify(readLockOwner(lockPath)) === JSON.stringify(current)) {
+        try {
+          unlinkSync(lockPath);
+        } catch {
+          // Another process broke it first
+        }
+      }
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for lock on ${path} (held by PID ${current?.pid})`);
+    }
+    sleep(LOCK_RETRY_MS);
+    owner.acquired_at = Date.now();
+  }
+
+  try {
+    return fn();
+  } finally {
+    if (readLockOwner(lockPath)?.pid === owner.pid) {
+      try {
+        unlinkSync(lockPath);
+      } catch {
+        // Already broken as stale
+      }
+    }
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Gate verdict audit log for OpenCode prompts plugin.
+ * Appends one JSON line per gate verdict to <workspace>/runtime-state/gate-audit.jsonl,
+ * rotating to gate-audit.1.jsonl, gate-audit.2.jsonl, ... when the file grows too large.
+ */
+
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { GateCriterionResult, GateVerdictOutcome } from "./types.js";
+import { getRuntimeStateDir } from "./workspace.js";
+
+// Resolve fallback runtime-state directory
+let FALLBACK_RUNTIME_DIR: string;
+try {
+  const __filename = fileURLToPath(import.meta.url);
+  const __dirname = dirname(__filename);
+  FALLBACK_RUNTIME_DIR = join(__dirname, "..", "..", "runtime-state");
+} catch {
+  FALLBACK_RUNTIME_DIR = "./runtime-state";
+}
+
+const AUDIT_FILE_NAME = "gate-audit";
+
+/**
+ * Rotate once the active log would exceed this size.
+ */
+export const DEFAULT_AUDIT_MAX_BYTES = 1024 * 1024;
+
+/**
+ * Number of rotated files kept next to the active log.
+ */
+export const DEFAULT_AUDIT_MAX_FILES = 3;
+
+export interface GateAuditEntry {
+  /** ISO 8601 timestamp */
+  timestamp: string;
+  session_id: string;
+  chain_id: string;
+  /** Pending gate when the verdict was seen (null if none was tracked) */
+  gate: string | null;
+  verdict: GateVerdictOutcome;
+  reason: string;
+  criteria: string[];
+  /** Per-criterion results of the verdict (absent in older entries) */
+  criteria_results?: GateCriterionResult[];
+  /** Whether the prompt_engine call was blocked */
+  blocked: boolean;
+  /** Verdict exactly as submitted */
+  raw: string;
+}
+
+export interface GateAuditOptions {
+  maxBytes?: number;
+  maxFiles?: number;
+}
+
+export interface GateAuditQuery {
+  session_id?: string;
+  chain_id?: string;
+  gate?: string;
+  /** Also read rotated files (oldest first) */
+  includeRotated?: boolean;
+  /** Only return the most recent N matching entries */
+  limit?: number;
+}
+
+/**
+ * Get path to the active audit log.
+ */
+export function getGateAuditPath(projectDir?: string): string {
+  return join(getRuntimeStateDir(FALLBACK_RUNTIME_DIR, projectDir), `${AUDIT_FILE_NAME}.jsonl`);
+}
+
+/**
+ * Get path to a rotated audit log (1 = most recent).
+ */
+function getRotatedPath(activePath: string, index: number): string {
+  return join(dirname(activePath), `${AUDIT_FILE_NAME}.${index}.jsonl`);
+}
+
+/**
+ * Shift rotated files up by one and move the active log to .1.
+ */
+function rotateAuditLog(activePath: string, maxFiles: number): void {
+  const oldest = getRotatedPath(activePath, maxFiles);
+  if (existsSync(oldest)) {
+    unlinkSync(oldest);
+  }
+  for (let index = maxFiles - 1; index >= 1; index--) {
+    const from = getRotatedPath(activePath, index);
+    if (existsSync(from)) {
+      renameSync(from, getRotatedPath(activePath, index + 1));
+    }
+  }
+  if (maxFiles > 0) {
+    renameSync(activePath, getRotatedPath(activePath, 1));
+  } else {
+    unlinkSync(activePath);
+  }
+}
+
+/**
+ * Append a verdict to the audit log, rotating first if needed.
+ * Failures are reported to the console and never block the tool call.
+ */
+export function appendGateAudit(
+  entry: Omit<GateAuditEntry, "timestamp"> & { timestamp?: string },
+  projectDir?: string,
+  options: GateAuditOptions = {}
+): GateAuditEntry {
+  const record: GateAuditEntry = { ...entry, timestamp: entry.timestamp ?? new Date().toISOString() };
+  const line = JSON.stringify(record) + "\n";
+  const maxBytes = options.maxBytes ?? DEFAULT_AUDIT_MAX_BYTES;
+  const maxFiles = options.maxFiles ?? DEFAULT_AUDIT_MAX_FILES;
+  const auditPath = getGateAuditPath(projectDir);
+
+  try {
+    mkdirSync(dirname(auditPath), { recursive: true });
+    if (existsSync(auditPath) && statSync(auditPath).size + Buffer.byteLength(line) > maxBytes) {
+      rotateAuditLog(auditPath, maxFiles);
+    }
+    appendFileSync(auditPath, line);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[opencode-prompts] Could not write gate audit log: ${message}`);
+  }
+
+  return record;
+}
+
+/**
+ * Parse one audit file, skipping malformed lines.
+ */
+function readAuditFile(path: string): GateAuditEntry[] {
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  const entries: GateAuditEntry[] = [];
+  for (const line of readFileSync(path, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as GateAuditEntry);
+    } catch {
+      // Skip partial or corrupted lines
+    }
+  }
+  return entries;
+}
+
+/**
+ * Read audit entries, oldest first.
+ */
+export function readGateAudit(
+  query: GateAuditQuery = {},
+  projectDir?: string,
+  options: GateAuditOptions = {}
+): GateAuditEntry[] {
+  const auditPath = getGateAuditPath(projectDir);
+  const paths: string[] = [];
+
+  if (query.includeRotated) {
+    const maxFiles = options.maxFiles ?? DEFAULT_AUDIT_MAX_FILES;
+    for (let index = maxFiles; index >= 1; index--) {
+      paths.push(getRotatedPath(auditPath, index));
+    }
+  }
+  paths.push(auditPath);
+
+  const entries = paths
+    .flatMap(readAuditFile)
+    .filter(
+      (entry) =>
+        (query.session_id === undefined || entry.session_id === query.session_id) &&
+        (query.chain_id === undefined || entry.chain_id === query.chain_id) &&
+        (query.gate === undefined || entry.gate === query.gate)
+    );
+  return query.limit !== undefined ? entries.slice(-query.limit) : entries;
+}
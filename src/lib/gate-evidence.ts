@@ -0,0 +1,116 @@
+/**
+ * Gate verdict evidence rules for OpenCode prompts plugin.
+ * A verdict can be required to give a reason of some length, address each
+ * of the gate's criteria, or mention verification output. FAIL verdicts are
+ * blocked anyway and are not checked; unreadable verdicts are, since the
+ * server may still let them through.
+ */
+
+import type { ChainState, GateVerdict } from "./types.js";
+import type { EvidenceRules, GateEvidenceConfig } from "./plugin-config.js";
+
+/**
+ * Results of a verification run: "12 tests passed", "exit code 0",
+ * "lint clean", "coverage 91%". Words like "ran" or "output" alone don't count.
+ */
+const VERIFICATION_PATTERN = new RegExp(
+  [
+    "\\b(\\d+\\s+)?(tests?|specs?|checks?)\\s+(passed|passing|failed|failing|green)\\b",
+    "\\b\\d+\\s+(passed|failed|passing|failing)\\b",
+    "\\bexit(ed)?\\s+(with\\s+)?((code|status)\\s*:?\\s*)?\\d+\\b",
+    "\\b(build|lint|typecheck|type check|tsc)\\s+(passed|passes|succeeded|failed|fails|clean|green)\\b",
+    "\\bcoverage\\s*:?\\s*\\d+(\\.\\d+)?%",
+  ].join("|"),
+  "i"
+);
+
+/**
+ * Evidence rules for a gate: per-gate rules override the global ones.
+ */
+export function resolveEvidenceRules(config: GateEvidenceConfig, gate: string | null): EvidenceRules {
+  const { gates, ...global } = config;
+  return { ...global, ...(gate ? gates[gate] : undefined) };
+}
+
+function significantWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length >= 4);
+}
+
+/**
+ * Whether free text mentions a criterion: at least half of its significant
+ * words (4+ letters) appear in the text.
+ */
+function mentionsCriterion(text: string, criterion: string): boolean {
+  const words = significantWords(criterion);
+  if (words.length === 0) {
+    return text.toLowerCase().includes(criterion.toLowerCase().trim());
+  }
+  const present = new Set(significantWords(text));
+  return words.filter((word) => present.has(word)).length * 2 >= words.length;
+}
+
+/**
+ * Whether text mentions verification output: the last verify run's result
+ * or a result like "tests passed" / "exit code 0". Naming the command alone
+ * doesn't count, nor does a run summary that is just an output line or the
+ * word "passed".
+ */
+function mentionsVerification(text: string, state: ChainState | null): boolean {
+  const summary = state?.shell_verify_last_run?.summary;
+  if (summary && VERIFICATION_PATTERN.test(summary) && text.toLowerCase().includes(summary.toLowerCase())) {
+    return true;
+  }
+  return VERIFICATION_PATTERN.test(text);
+}
+
+/**
+ * Check a verdict against evidence rules.
+ *
+ * @param state - Chain at the gate, for its criteria and shell verify results
+ * @returns Missing evidence, empty if the verdict meets the rules
+ */
+export function checkGateEvidence(
+  verdict: GateVerdict,
+  rules: EvidenceRules,
+  state: ChainState | null
+): string[] {
+  if (verdict.verdict === "FAIL") {
+    return [];
+  }
+
+  const missing: string[] = [];
+  if (verdict.reason.length < rules.minReasonLength) {
+    missing.push(`reason of at least ${rules.minReasonLength} characters (got ${verdict.reason.length})`);
+  }
+
+  // Criterion notes count as part of the reason
+  const text = [verdict.reason, ...verdict.criteria.map((criterion) => criterion.note)].join("\n");
+
+  if (rules.requireCriteria) {
+    const unaddressed = (state?.gate_criteria ?? []).filter((criterion) => {
+      const result = verdict.criteria.find((entry) => entry.name === criterion);
+      return (!result || result.pass === null) && !mentionsCriterion(text, criterion);
+    });
+    for (const criterion of unaddressed) {
+      missing.push(`reference to criterion "${criterion}"`);
+    }
+  }
+
+  if (rules.requireVerification && !mentionsVerification(text, state)) {
+    missing.push("mention of verification output (e.g. test results or exit code)");
+  }
+  return missing;
+}
+
+/**
+ * Rejection listing the evidence a verdict is missing.
+ */
+export function formatEvidenceRejection(gate: string, missing: string[]): string {
+  return (
+    `Gate "${gate}" verdict rejected: missing evidence:\n${missing.map((item) => `- ${item}`).join("\n")}\n` +
+    `Resubmit with GATE_REVIEW: PASS - <reason covering the above>.`
+  );
+}
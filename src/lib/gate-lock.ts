@@ -0,0 +1,116 @@
+/**
+ * Gate lock for OpenCode prompts plugin.
+ * While a chain waits at a gate, tools that modify files are denied until
+ * the agent submits its GATE_REVIEW, so a pending gate can't be skipped by
+ * carrying on with edits.
+ */
+
+import type { ChainState } from "./types.js";
+import type { GateLockConfig } from "./plugin-config.js";
+import { isExactVerifyCommand, isShellTool } from "./shell-verify.js";
+
+/**
+ * Tools denied while a gate is pending.
+ */
+export const DEFAULT_GATE_LOCK_TOOLS = ["edit", "write", "patch", "multiedit"];
+
+/**
+ * Read-only tools never denied, even if also listed as denied.
+ */
+export const DEFAULT_GATE_LOCK_ALLOW_TOOLS = ["read", "grep", "glob", "list", "webfetch", "todoread"];
+
+/**
+ * Shell command patterns (case-insensitive regexes) treated as file writes.
+ */
+export const DEFAULT_GATE_LOCK_BASH_PATTERNS = [
+  // Output redirection to a file (not 2>&1 or /dev/null)
+  "(^|[^<>&0-9])>{1,2}(?!\\s*(&|/dev/null))",
+  "\\b(rm|mv|cp|mkdir|rmdir|touch|tee|truncate|chmod|chown|ln|dd)\\s",
+  "\\bsed\\s+(-[a-z]*i|--in-place)",
+  "\\bgit\\s+(add|commit|apply|checkout|restore|reset|merge|rebase|cherry-pick|revert|stash|mv|rm)\\b",
+  "\\bpatch\\s",
+];
+
+/**
+ * Whether a tool name matches one of the names, ignoring any MCP server
+ * prefix (`fs_write` matches "write").
+ */
+function matchesToolName(tool: string, names: string[]): boolean {
+  const name = tool.toLowerCase();
+  return names.some((entry) => {
+    const expected = entry.toLowerCase();
+    return name === expected || name.endsWith(`_${expected}`) || name.endsWith(`.${expected}`);
+  });
+}
+
+/**
+ * Whether a shell command matches one of the write patterns.
+ * Invalid patterns are skipped.
+ */
+export function isShellWrite(command: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    try {
+      return new RegExp(pattern, "i").test(command);
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Whether a tool call modifies files under the gate lock's lists.
+ * The allowlist wins; shell tools count only when their command matches a
+ * write pattern.
+ */
+export function isGateLockedCall(
+  tool: string,
+  args: Record<string, unknown> | undefined,
+  config: GateLockConfig
+): boolean {
+  if (matchesToolName(tool, config.allowTools)) {
+    return false;
+  }
+  if (isShellTool(tool)) {
+    const command = args?.command;
+    return typeof command === "string" && isShellWrite(command, config.bashWritePatterns);
+  }
+  return matchesToolName(tool, config.tools);
+}
+
+/**
+ * Find the chain whose pending gate denies a tool call.
+ * Running a chain's pending verify command is never denied, but only on its
+ * own: a write chained to it (`rm -rf src && npm test`) is still denied.
+ *
+ * @returns The chain waiting at a gate, or null if the call is allowed
+ */
+export function findGateLock(
+  tool: string,
+  args: Record<string, unknown> | undefined,
+  chains: ChainState[],
+  config: GateLockConfig
+): ChainState | null {
+  if (!config.enabled || !isGateLockedCall(tool, args, config)) {
+    return null;
+  }
+
+  const command = args?.command;
+  if (
+    typeof command === "string" &&
+    chains.some((chain) => chain.pending_shell_verify && isExactVerifyCommand(command, chain.pending_shell_verify))
+  ) {
+    return null;
+  }
+  return chains.find((chain) => chain.pending_gate) ?? null;
+}
+
+/**
+ * Denial telling the agent to submit its gate review first.
+ */
+export function formatGateLockDenial(tool: string, state: ChainState): string {
+  const chainId = state.chain_id || "unnamed";
+  return (
+    `[Gate] ${tool} is blocked while gate "${state.pending_gate}" awaits review on ${chainId}. ` +
+    `Submit GATE_REVIEW: PASS|FAIL - <reason> with prompt_engine(chain_id:"${chainId}", gate_verdict:...) first.`
+  );
+}
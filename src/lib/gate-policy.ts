@@ -0,0 +1,39 @@
+/**
+ * Gate enforcement policy for OpenCode prompts plugin.
+ * Resolves which enforcement mode applies to a gate review.
+ */
+
+import type { EnforcementMode, GatePolicyConfig } from "./plugin-config.js";
+
+/**
+ * Resolve the enforcement mode for a gate.
+ * Most specific match wins: gate name > prompt id > global mode.
+ */
+export function resolveGateEnforcement(
+  policy: GatePolicyConfig,
+  target: { gate?: string | null; promptId?: string | null }
+): EnforcementMode {
+  if (target.gate && policy.gates[target.gate]) {
+    return policy.gates[target.gate];
+  }
+  if (target.promptId && policy.prompts[target.promptId]) {
+    return policy.prompts[target.promptId];
+  }
+  return policy.mode;
+}
+
+/**
+ * Apply an enforcement mode to a gate violation.
+ *
+ * @returns A warning to inject ("warn"), or null ("off")
+ * @throws Error with the violation message ("strict")
+ */
+export function enforceGate(mode: EnforcementMode, message: string): string | null {
+  if (mode === "strict") {
+    throw new Error(message);
+  }
+  if (mode === "warn") {
+    return `[Gate Warning] ${message}`;
+  }
+  return null;
+}
@@ -0,0 +1,162 @@
+/**
+ * Gate verdict parsing for OpenCode prompts plugin.
+ *
+ * prompt_engine's gate_verdict is accepted in two forms:
+ *   - "GATE_REVIEW: PASS|FAIL - reason" (PASSED/FAILED also count), on any
+ *     line, so an explanation may come first. Without the GATE_REVIEW prefix
+ *     the verdict must be upper case, and may also end the text:
+ *     "no failures found - PASS"
+ *   - JSON, as an object or a string:
+ *     {"verdict": "PASS", "reason": "...", "criteria": [{"name": "...", "pass": true, "note": "..."}]}
+ */
+
+import type { GateCriterionResult, GateVerdict, GateVerdictOutcome } from "./types.js";
+
+// May follow an explanation on earlier lines
+const PREFIXED_VERDICT = /^\s*GATE_REVIEW\s*:\s*(PASS(?:ED)?|FAIL(?:ED)?)\b\s*[-:–—]?\s*([\s\S]*)$/im;
+// Case-sensitive, so prose like "pass the buck" is not read as a verdict
+const LEADING_VERDICT = /^\s*(PASS(?:ED)?|FAIL(?:ED)?)\b\s*[-:–—]?\s*([\s\S]*)$/;
+const TRAILING_VERDICT = /^([\s\S]*?)\s*[-:–—]\s*(PASS(?:ED)?|FAIL(?:ED)?)[.!]?\s*$/;
+
+function toOutcome(word: string): GateVerdictOutcome {
+  return word.toUpperCase().startsWith("PASS") ? "PASS" : "FAIL";
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseOutcome(value: unknown): GateVerdictOutcome {
+  if (typeof value === "boolean") {
+    return value ? "PASS" : "FAIL";
+  }
+  if (typeof value === "string" && /^\s*(PASS(ED)?|FAIL(ED)?)\s*$/i.test(value)) {
+    return toOutcome(value.trim());
+  }
+  return "UNKNOWN";
+}
+
+/**
+ * Read the criteria array of a JSON verdict, skipping malformed entries.
+ */
+function parseCriteria(value: unknown): GateCriterionResult[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const criteria: GateCriterionResult[] = [];
+  for (const entry of value) {
+    if (!isRecord(entry) || typeof entry.name !== "string" || !entry.name.trim()) continue;
+    const outcome = parseOutcome(entry.pass);
+    criteria.push({
+      name: entry.name.trim(),
+      pass: outcome === "UNKNOWN" ? null : outcome === "PASS",
+      note: typeof entry.note === "string" ? entry.note.trim() : "",
+    });
+  }
+  return criteria;
+}
+
+function parseJsonVerdict(data: Record<string, unknown>, raw: string): GateVerdict {
+  const criteria = parseCriteria(data.criteria);
+  let verdict = parseOutcome(data.verdict);
+  // Without an overall verdict, the criteria decide
+  if (verdict === "UNKNOWN" && criteria.length > 0 && criteria.every((criterion) => criterion.pass !== null)) {
+    verdict = criteria.every((criterion) => criterion.pass) ? "PASS" : "FAIL";
+  }
+  return {
+    verdict,
+    reason: typeof data.reason === "string" ? data.reason.trim() : "",
+    criteria,
+    raw,
+  };
+}
+
+function parseTextVerdict(raw: string): GateVerdict {
+  const leading = raw.match(PREFIXED_VERDICT) ?? raw.match(LEADING_VERDICT);
+  if (leading) {
+    return { verdict: toOutcome(leading[1]), reason: leading[2].trim(), criteria: [], raw };
+  }
+  const trailing = raw.match(TRAILING_VERDICT);
+  if (trailing) {
+    return { verdict: toOutcome(trailing[2]), reason: trailing[1].trim(), criteria: [], raw };
+  }
+  return { verdict: "UNKNOWN", reason: raw.trim(), criteria: [], raw };
+}
+
+function criterionKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/**
+ * Line up a verdict's criteria with the gate's criteria, in the gate's order.
+ * Gate criteria the verdict does not mention get pass: null; criteria
+ * the gate does not list are kept after them.
+ */
+export function matchGateCriteria(
+  results: GateCriterionResult[],
+  gateCriteria: string[]
+): GateCriterionResult[] {
+  const remaining = [...results];
+  const matched = gateCriteria.map((name) => {
+    const key = criterionKey(name);
+    const index = remaining.findIndex((result) => {
+      const resultKey = criterionKey(result.name);
+      return resultKey.length > 0 && (resultKey === key || key.includes(resultKey) || resultKey.includes(key));
+    });
+    if (index === -1) {
+      return { name, pass: null, note: "" };
+    }
+    const [result] = remaining.splice(index, 1);
+    return { ...result, name };
+  });
+  return [...matched, ...remaining];
+}
+
+/**
+ * Parse a submitted gate_verdict.
+ *
+ * @param gateCriteria - Criteria of the pending gate, to record which passed
+ * @returns The verdict, or null if none was submitted
+ */
+export function parseGateVerdict(value: unknown, gateCriteria: string[] = []): GateVerdict | null {
+  let verdict: GateVerdict;
+  if (isRecord(value)) {
+    verdict = parseJsonVerdict(value, JSON.stringify(value));
+  } else if (typeof value === "string" && value.trim()) {
+    let data: unknown;
+    if (value.trim().startsWith("{")) {
+      try {
+        data = JSON.parse(value);
+      } catch {
+        // Not JSON; read it as text
+      }
+    }
+    verdict = isRecord(data) ? parseJsonVerdict(data, value) : parseTextVerdict(value);
+  } else {
+    return null;
+  }
+
+  if (gateCriteria.length > 0) {
+    verdict.criteria = matchGateCriteria(verdict.criteria, gateCriteria);
+  }
+  return verdict;
+}
+
+/**
+ * Summarize per-criterion results, e.g. "2/3 criteria passed (failed: Tests cover edge cases)".
+ */
+export function formatCriteriaResults(criteria: GateCriterionResult[]): string {
+  if (criteria.length === 0) {
+    return "";
+  }
+  const passed = criteria.filter((criterion) => criterion.pass === true).length;
+  const failed = criteria.filter((criterion) => criterion.pass === false).map((criterion) => criterion.name);
+  const unchecked = criteria.filter((criterion) => criterion.pass === null).length;
+
+  const details: string[] = [];
+  if (failed.length > 0) details.push(`failed: ${failed.join(", ")}`);
+  if (unchecked > 0) details.push(`${unchecked} not addressed`);
+  const summary = `${passed}/${criteria.length} criteria passed`;
+  return details.length > 0 ? `${summary} (${details.join("; ")})` : summary;
+}
@@ -0,0 +1,373 @@
+/**
+ * Plugin configuration for OpenCode prompts plugin.
+ *
+ * Read from (project overrides global, section by section):
+ *   1. ./.opencode/opencode-prompts.json(c) - Project config
+ *   2. ~/.config/opencode/opencode-prompts.json(c) - Global config
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import * as jsonc from "jsonc-parser";
+import { DEFAULT_SHELL_VERIFY_MAX_ATTEMPTS, type SessionPersistenceOptions } from "./session-state.js";
+import { DEFAULT_SESSION_TTL_HOURS } from "./session-gc.js";
+import {
+  DEFAULT_GATE_LOCK_ALLOW_TOOLS,
+  DEFAULT_GATE_LOCK_BASH_PATTERNS,
+  DEFAULT_GATE_LOCK_TOOLS,
+} from "./gate-lock.js";
+
+const CONFIG_BASENAME = "opencode-prompts";
+const GLOBAL_CONFIG_DIR = join(homedir(), ".config", "opencode");
+
+/**
+ * How a gate verdict is enforced.
+ * - "strict": block the prompt_engine call
+ * - "warn": allow the call and inject a warning
+ * - "off": no enforcement
+ */
+export type EnforcementMode = "strict" | "warn" | "off";
+
+/**
+ * Gate enforcement policy. Most specific match wins: gate > prompt > global.
+ */
+export interface GatePolicyConfig {
+  mode: EnforcementMode;
+  /** Per gate name */
+  gates: Record<string, EnforcementMode>;
+  /** Per prompt id */
+  prompts: Record<string, EnforcementMode>;
+}
+
+/**
+ * Evidence a PASS (or unreadable) verdict must give.
+ */
+export interface EvidenceRules {
+  /** Minimum reason length in characters (0 = any) */
+  minReasonLength: number;
+  /** Each gate criterion must be addressed, by name or as a JSON criterion result */
+  requireCriteria: boolean;
+  /** The reason must mention verification output (test results, exit code, ...) */
+  requireVerification: boolean;
+}
+
+export interface GateEvidenceConfig extends EvidenceRules {
+  /** Per gate name; fields override the global rules */
+  gates: Record<string, Partial<EvidenceRules>>;
+}
+
+/**
+ * Tools denied while a gate review is pending.
+ */
+export interface GateLockConfig {
+  enabled: boolean;
+  /** Tool names denied (an MCP server prefix is ignored) */
+  tools: string[];
+  /** Regexes marking a bash command as a file write */
+  bashWritePatterns: string[];
+  /** Read-only tools always allowed */
+  allowTools: string[];
+}
+
+/**
+ * What happens once a shell verification uses up its attempt budget.
+ * - "block": inject a stop-and-ask instruction and block prompt_engine calls continuing the chain
+ * - "ask": inject the stop-and-ask instruction only
+ * - "off": keep counting, no escalation
+ */
+export type VerifyEscalation = "block" | "ask" | "off";
+
+export interface ShellVerifyConfig {
+  /** Budget used when the prompt_engine response does not state one */
+  maxAttempts: number;
+  escalation: VerifyEscalation;
+}
+
+/**
+ * Prompt suggestions injected on user messages.
+ */
+export interface SuggestionsConfig {
+  enabled: boolean;
+  /** Minimum matchPromptsToIntent score for a prompt to be suggested */
+  threshold: number;
+  maxResults: number;
+}
+
+/**
+ * Stale session state sweeping.
+ */
+export interface SessionGcConfig {
+  /** Remove session files not written for this many hours */
+  ttlHours: number;
+  /** Sweep interval while the plugin runs; 0 sweeps only at load */
+  intervalMinutes: number;
+}
+
+/**
+ * What happens when prompt_engine starts a new command (no chain_id) while
+ * another chain is open.
+ * - "warn": allow the call and inject a warning
+ * - "block": block the call until the open chain is continued or reset
+ * - "abandon": abandon the open chain (recorded for resuming) and allow the call
+ * - "off": no check
+ */
+export type OpenChainPolicy = "warn" | "block" | "abandon" | "off";
+
+export interface OpenChainConfig {
+  policy: OpenChainPolicy;
+}
+
+/**
+ * prompt_engine continuation calls.
+ */
+export interface ContinuationConfig {
+  /** Fill in the active chain's chain_id when a call without a command omits it */
+  injectChainId: boolean;
+}
+
+/**
+ * Checks on prompt_engine command arguments.
+ */
+export interface PromptArgsConfig {
+  /** Block calls with missing required arguments or type mismatches */
+  validate: boolean;
+  /** Fill defaults and coerce values to the listed types before validating */
+  normalize: boolean;
+}
+
+/**
+ * How the compaction prompt is changed while a chain or gate is active.
+ * - "extend": add the rendered template to the default compaction prompt
+ * - "replace": use the rendered template as the whole compaction prompt
+ * - "off": leave the compaction prompt alone
+ */
+export type CompactionPromptMode = "extend" | "replace" | "off";
+
+export interface CompactionPromptConfig {
+  mode: CompactionPromptMode;
+  /**
+   * Template with {{placeholders}} (see compaction.ts); null uses the
+   * built-in template for the mode
+   */
+  template: string | null;
+}
+
+/**
+ * Full plugin configuration with defaults applied.
+ */
+export interface PluginConfig {
+  gatePolicy: GatePolicyConfig;
+  gateEvidence: GateEvidenceConfig;
+  gateLock: GateLockConfig;
+  shellVerify: ShellVerifyConfig;
+  suggestions: SuggestionsConfig;
+  persistence: SessionPersistenceOptions;
+  gc: SessionGcConfig;
+  compaction: CompactionPromptConfig;
+  openChains: OpenChainConfig;
+  continuation: ContinuationConfig;
+  promptArgs: PromptArgsConfig;
+}
+
+/**
+ * Configuration as written in the file (every field optional).
+ */
+export type PluginConfigFile = {
+  [K in keyof PluginConfig]?: Partial<PluginConfig[K]>;
+};
+
+export const DEFAULT_PLUGIN_CONFIG: PluginConfig = {
+  gatePolicy: {
+    mode: "strict",
+    gates: {},
+    prompts: {},
+  },
+  gateEvidence: {
+    minReasonLength: 0,
+    requireCriteria: false,
+    requireVerification: false,
+    gates: {},
+  },
+  gateLock: {
+    enabled: false,
+    tools: DEFAULT_GATE_LOCK_TOOLS,
+    bashWritePatterns: DEFAULT_GATE_LOCK_BASH_PATTERNS,
+    allowTools: DEFAULT_GATE_LOCK_ALLOW_TOOLS,
+  },
+  shellVerify: {
+    maxAttempts: DEFAULT_SHELL_VERIFY_MAX_ATTEMPTS,
+    escalation: "block",
+  },
+  suggestions: {
+    enabled: true,
+    threshold: 20,
+    maxResults: 3,
+  },
+  persistence: {
+    enabled: true,
+    debounceMs: 250,
+  },
+  gc: {
+    ttlHours: DEFAULT_SESSION_TTL_HOURS,
+    intervalMinutes: 60,
+  },
+  compaction: {
+    mode: "off",
+    template: null,
+  },
+  openChains: {
+    policy: "warn",
+  },
+  continuation: {
+    injectChainId: true,
+  },
+  promptArgs: {
+    validate: true,
+    normalize: false,
+  },
+};
+
+const ENFORCEMENT_MODES: readonly EnforcementMode[] = ["strict", "warn", "off"];
+const VERIFY_ESCALATIONS: readonly VerifyEscalation[] = ["block", "ask", "off"];
+const OPEN_CHAIN_POLICIES: readonly OpenChainPolicy[] = ["warn", "block", "abandon", "off"];
+const COMPACTION_MODES: readonly CompactionPromptMode[] = ["extend", "replace", "off"];
+
+function isOneOf<T extends string>(value: unknown, allowed: readonly T[]): value is T {
+  return typeof value === "string" && (allowed as readonly string[]).includes(value);
+}
+
+function warnInvalidValue(field: string, value: unknown, allowed: readonly string[], fallback: string): void {
+  console.log(
+    `[opencode-prompts] Warning: Invalid ${field} ${JSON.stringify(value)} ` +
+      `(expected ${allowed.join(", ")}); using ${fallback}`
+  );
+}
+
+/**
+ * Replace an invalid enum value with the default, so a typo like "strcit"
+ * doesn't silently turn a check off.
+ */
+function checkEnum<T extends string>(field: string, value: unknown, allowed: readonly T[], fallback: T): T {
+  if (isOneOf(value, allowed)) {
+    return value;
+  }
+  warnInvalidValue(field, value, allowed, `"${fallback}"`);
+  return fallback;
+}
+
+/**
+ * Drop per-gate/per-prompt modes that are invalid; those targets fall back
+ * to the next policy level.
+ */
+function checkModeMap(field: string, modes: Record<string, EnforcementMode>): Record<string, EnforcementMode> {
+  const valid: Record<string, EnforcementMode> = {};
+  for (const [name, mode] of Object.entries(modes ?? {})) {
+    if (isOneOf(mode, ENFORCEMENT_MODES)) {
+      valid[name] = mode;
+    } else {
+      warnInvalidValue(`${field}.${name}`, mode, ENFORCEMENT_MODES, "the next policy level");
+    }
+  }
+  return valid;
+}
+
+/**
+ * Check the enum fields of a merged config, replacing invalid values.
+ */
+function validatePluginConfig(config: PluginConfig): PluginConfig {
+  const defaults = DEFAULT_PLUGIN_CONFIG;
+  config.gatePolicy.mode = checkEnum(
+    "gatePolicy.mode",
+    config.gatePolicy.mode,
+    ENFORCEMENT_MODES,
+    defaults.gatePolicy.mode
+  );
+  config.gatePolicy.gates = checkModeMap("gatePolicy.gates", config.gatePolicy.gates);
+  config.gatePolicy.prompts = checkModeMap("gatePolicy.prompts", config.gatePolicy.prompts);
+  config.shellVerify.escalation = checkEnum(
+    "shellVerify.escalation",
+    config.shellVerify.escalation,
+    VERIFY_ESCALATIONS,
+    defaults.shellVerify.escalation
+  );
+  config.openChains.policy = checkEnum(
+    "openChains.policy",
+    config.openChains.policy,
+    OPEN_CHAIN_POLICIES,
+    defaults.openChains.policy
+  );
+  config.compaction.mode = checkEnum(
+    "compaction.mode",
+    config.compaction.mode,
+    COMPACTION_MODES,
+    defaults.compaction.mode
+  );
+  return config;
+}
+
+/**
+ * Find the config file in a directory (jsonc takes precedence).
+ */
+function findConfigFile(dir: string): string | null {
+  for (const ext of ["jsonc", "json"]) {
+    const path = join(dir, `${CONFIG_BASENAME}.${ext}`);
+    if (existsSync(path)) {
+      return path;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read one plugin config file.
+ */
+export function readPluginConfigFile(path: string): PluginConfigFile | null {
+  try {
+    const content = readFileSync(path, "utf-8");
+    const errors: jsonc.ParseError[] = [];
+    const config = jsonc.parse(content, errors) as PluginConfigFile;
+
+    if (errors.length > 0 || typeof config !== "object" || config === null) {
+      console.log(`[opencode-prompts] Warning: Parse errors in ${path}`);
+      return null;
+    }
+
+    return config;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Merge config layers over the defaults, one section at a time.
+ * Invalid enum values are reported and replaced with the default.
+ */
+export function mergePluginConfig(...layers: Array<PluginConfigFile | null>): PluginConfig {
+  const merged: PluginConfig = structuredClone(DEFAULT_PLUGIN_CONFIG);
+
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const key of Object.keys(merged) as Array<keyof PluginConfig>) {
+      const section = layer[key];
+      if (section && typeof section === "object") {
+        Object.assign(merged[key], section);
+      }
+    }
+  }
+
+  return validatePluginConfig(merged);
+}
+
+/**
+ * Load plugin configuration for a project.
+ */
+export function loadPluginConfig(projectDir?: string): PluginConfig {
+  const globalPath = findConfigFile(GLOBAL_CONFIG_DIR);
+  const projectPath = projectDir ? findConfigFile(join(projectDir, ".opencode")) : null;
+
+  return mergePluginConfig(
+    globalPath ? readPluginConfigFile(globalPath) : null,
+    projectPath ? readPluginConfigFile(projectPath) : null
+  );
+}
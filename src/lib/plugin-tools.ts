@@ -0,0 +1,90 @@
+/**
+ * Custom tool implementations for OpenCode prompts plugin.
+ * Let the agent inspect and reset its own chain/gate state.
+ */
+
+import { loadGatesCache } from "./cache-manager.js";
+import { abandonChain, formatAbandonedChains, listAbandonedChains } from "./chain-abandon.js";
+import { formatCriteriaResults } from "./gate-verdict.js";
+import { formatSessionReminder, listSessionChains, loadSessionState } from "./session-state.js";
+import { formatTimelineSummary, getSessionTimeline } from "./timeline.js";
+
+/**
+ * Report chain, gate and shell verify state for a session (chain_status tool).
+ */
+export function getChainStatus(sessionId: string, projectDir?: string): string {
+  const chains = listSessionChains(sessionId, projectDir);
+  const abandoned = listAbandonedChains(sessionId, projectDir);
+  if (chains.length === 0 && abandoned.length === 0) {
+    return "No active chain, gate or shell verification in this session.";
+  }
+
+  const sections = chains.length > 0
+    ? [formatSessionReminder(chains, "full")]
+    : ["No active chain in this session."];
+
+  const gateCriteria = chains[0]?.gate_criteria ?? [];
+  if (chains[0]?.pending_gate && gateCriteria.length > 0) {
+    sections.push(`Gate criteria:\n${gateCriteria.map((c) => `- ${c}`).join("\n")}`);
+  }
+
+  const lastVerdict = chains[0]?.last_gate_verdict;
+  if (lastVerdict) {
+    const results = formatCriteriaResults(lastVerdict.criteria);
+    sections.push(`Last gate verdict: ${lastVerdict.verdict}${results ? ` (${results})` : ""}`);
+  }
+
+  if (abandoned.length > 0) {
+    sections.push(`Abandoned (resumable):\n${formatAbandonedChains(abandoned)}`);
+  }
+
+  const timeline = formatTimelineSummary(getSessionTimeline(sessionId, projectDir), 5);
+  if (timeline) {
+    sections.push(`Recent activity:\n${timeline}`);
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Abandon the active chain (chain_reset tool).
+ * It is recorded for resuming; other chains in the session are kept.
+ */
+export function resetActiveChain(sessionId: string, projectDir?: string): string {
+  const state = loadSessionState(sessionId, projectDir);
+  if (!state) {
+    return "No active chain to reset.";
+  }
+
+  const chainId = state.chain_id || "unnamed";
+  if (!abandonChain(sessionId, state, "chain_reset", projectDir)) {
+    return `Chain ${chainId} is ${state.status} and cannot be reset.`;
+  }
+
+  const next = loadSessionState(sessionId, projectDir);
+  const remaining = next ? ` Active chain is now ${next.chain_id || "unnamed"}.` : "";
+  return (
+    `Chain ${chainId} abandoned; its gate and verify state were cleared. ` +
+    `Resume it with prompt_engine(chain_id:"${chainId}").${remaining}`
+  );
+}
+
+/**
+ * List gates defined in the gates cache (gate_list tool).
+ */
+export function listGates(sessionId: string, projectDir?: string): string {
+  const cache = loadGatesCache(projectDir);
+  const gates = Object.entries(cache?.gates ?? {});
+  if (gates.length === 0) {
+    return "No gates found in the gates cache.";
+  }
+
+  const pending = loadSessionState(sessionId, projectDir)?.pending_gate;
+  return gates
+    .map(([id, gate]) => {
+      const marker = pending && (pending === id || pending === gate.name) ? " (pending)" : "";
+      const triggers = gate.triggers?.length ? ` [${gate.triggers.join(", ")}]` : "";
+      return `- ${id}${marker}: ${gate.name} (${gate.type}) - ${gate.description}${triggers}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,214 @@
+/**
+ * Prompt argument validation for OpenCode prompts plugin.
+ * Checks prompt_engine commands against the arguments listed in the prompts
+ * cache, so bad calls fail before a round trip to the MCP server. The
+ * opt-in normalizer fills defaults and coerces values to the listed types.
+ */
+
+import type { ArgumentInfo, PromptInfo, PromptsCache } from "./types.js";
+import type { PromptInvocation } from "./prompt-syntax.js";
+import { parseEngineCommand, resolvePromptCommand, setPromptArguments } from "./prompt-syntax.js";
+
+/**
+ * One argument rewritten by normalizePromptCommand.
+ */
+export interface ArgumentChange {
+  prompt_id: string;
+  arg: string;
+  /** Value as written; null when a default was filled in */
+  from: string | null;
+  to: string;
+}
+
+/**
+ * Whether a command-line value can be read as the argument's type.
+ * Unknown types accept any value.
+ */
+function matchesArgumentType(value: string, type: string): boolean {
+  switch (type.toLowerCase()) {
+    case "number":
+      return value.trim() !== "" && Number.isFinite(Number(value));
+    case "integer":
+      return value.trim() !== "" && Number.isInteger(Number(value));
+    case "boolean":
+      return /^(true|false)$/i.test(value);
+    case "array":
+      // Comma-separated lists are accepted as written; JSON must be an array
+      return !value.trim().startsWith("[") || Array.isArray(parseJson(value));
+    case "object": {
+      const parsed = parseJson(value);
+      return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed);
+    }
+    default:
+      return true;
+  }
+}
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Coerce a value to the argument's type where the meaning is unambiguous.
+ * Values that can't be coerced are returned unchanged for validation to report.
+ */
+function coerceArgumentValue(value: string, type: string): string {
+  const trimmed = value.trim();
+  switch (type.toLowerCase()) {
+    case "number":
+    case "integer":
+      return trimmed !== "" && Number.isFinite(Number(trimmed)) ? String(Number(trimmed)) : value;
+    case "boolean":
+      if (/^(true|yes|on|1)$/i.test(trimmed)) return "true";
+      if (/^(false|no|off|0)$/i.test(trimmed)) return "false";
+      return value;
+    case "array":
+      if (trimmed.startsWith("[")) {
+        return value;
+      }
+      return JSON.stringify(trimmed === "" ? [] : trimmed.split(",").map((item) => item.trim()));
+    default:
+      return value;
+  }
+}
+
+/**
+ * Fill defaults and coerce argument values in a prompt_engine command.
+ * Only the changed arguments are rewritten; prompts missing from the cache
+ * are left as written.
+ *
+ * @returns The rewritten command and what changed (command unchanged, with no
+ *   changes, if nothing did or the command could not be rewritten exactly)
+ */
+export function normalizePromptCommand(
+  command: string,
+  cache?: PromptsCache | null,
+  projectDir?: string
+): { command: string; changes: ArgumentChange[] } {
+  const parsed = parseEngineCommand(command);
+  if (!parsed) {
+    return { command, changes: [] };
+  }
+
+  const changes: ArgumentChange[] = [];
+  // Values to write back, per step
+  const updates = parsed.steps.map((): Record<string, string> => ({}));
+  resolvePromptCommand(parsed, cache, projectDir).forEach(([invocation, prompt], index) => {
+    if (!prompt) return;
+    for (const arg of prompt.arguments) {
+      const value = invocation.args[arg.name];
+      if (value === undefined) {
+        if (arg.default !== undefined && arg.default !== null) {
+          updates[index][arg.name] = String(arg.default);
+          changes.push({ prompt_id: prompt.id, arg: arg.name, from: null, to: String(arg.default) });
+        }
+        continue;
+      }
+      const coerced = coerceArgumentValue(value, arg.type);
+      if (coerced !== value) {
+        updates[index][arg.name] = coerced;
+        changes.push({ prompt_id: prompt.id, arg: arg.name, from: value, to: coerced });
+      }
+    }
+  });
+
+  if (changes.length === 0) {
+    return { command, changes };
+  }
+
+  const rewritten = setPromptArguments(command, updates);
+  return rewritten === null ? { command, changes: [] } : { command: rewritten, changes };
+}
+
+/**
+ * Describe an argument change, e.g. `"yes" -> true` or `2 (default)`.
+ */
+export function formatArgumentChange(change: ArgumentChange): string {
+  return change.from === null
+    ? `${change.to} (default)`
+    : `${JSON.stringify(change.from)} -> ${change.to}`;
+}
+
+/**
+ * Check one invocation against its prompt's arguments.
+ * Free text fills the first missing required argument, as the server does.
+ *
+ * @param checkRequired - false for later chain steps, which get the previous step's output
+ * @returns Problems found, empty if the call is valid
+ */
+export function validatePromptArgs(
+  invocation: PromptInvocation,
+  prompt: PromptInfo,
+  checkRequired = true
+): string[] {
+  const problems: string[] = [];
+  let textAvailable = invocation.text.length > 0;
+
+  for (const arg of prompt.arguments) {
+    const value = invocation.args[arg.name];
+    if (value === undefined) {
+      if (!arg.required || !checkRequired) continue;
+      if (textAvailable) {
+        textAvailable = false;
+      } else {
+        problems.push(`missing required argument "${arg.name}"`);
+      }
+      continue;
+    }
+    if (!matchesArgumentType(value, arg.type)) {
+      problems.push(`"${arg.name}" must be ${arg.type} (got ${JSON.stringify(value)})`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Format a prompt's expected call, e.g.
+ * `>>diagnose scope:<string> [depth:<number>=2]`
+ */
+export function formatPromptSignature(prompt: PromptInfo): string {
+  const args = prompt.arguments.map((arg: ArgumentInfo) => {
+    const spec = `${arg.name}:<${arg.type}>`;
+    if (arg.required) {
+      return spec;
+    }
+    const fallback = arg.default !== undefined && arg.default !== null ? `=${arg.default}` : "";
+    return `[${spec}${fallback}]`;
+  });
+  return [`>>${prompt.id}`, ...args].join(" ");
+}
+
+/**
+ * Validate every step of a prompt_engine command.
+ * Required arguments are only checked on the first step; argument types on all.
+ * Prompts missing from the cache are left to the server.
+ *
+ * @returns Error message listing problems and expected signatures, or null if valid
+ */
+export function checkPromptCommandArgs(
+  command: string,
+  cache?: PromptsCache | null,
+  projectDir?: string
+): string | null {
+  const parsed = parseEngineCommand(command);
+  if (!parsed) {
+    return null;
+  }
+
+  const errors: string[] = [];
+  for (const [index, [invocation, prompt]] of resolvePromptCommand(parsed, cache, projectDir).entries()) {
+    if (!prompt) continue;
+    const problems = validatePromptArgs(invocation, prompt, index === 0);
+    if (problems.length > 0) {
+      errors.push(
+        `Invalid arguments for >>${prompt.id}: ${problems.join("; ")}. ` +
+          `Expected: ${formatPromptSignature(prompt)}`
+      );
+    }
+  }
+  return errors.length > 0 ? errors.join("\n") : null;
+}
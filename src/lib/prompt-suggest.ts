@@ -0,0 +1,67 @@
+/**
+ * Prompt suggestions for OpenCode prompts plugin.
+ * Scores user messages against the prompts cache and suggests relevant gates.
+ */
+
+import type { GateInfo, GatesCache, PromptInfo, PromptsCache } from "./types.js";
+import { matchPromptsToIntent, suggestGatesForWork } from "./cache-manager.js";
+
+export interface PromptSuggestions {
+  prompts: Array<[string, PromptInfo, number]>;
+  gates: Array<[string, GateInfo]>;
+}
+
+/**
+ * Words that indicate each work type understood by suggestGatesForWork.
+ */
+const WORK_TYPE_PATTERNS: Record<string, RegExp> = {
+  code: /\b(code|implement|refactor|bug|fix|function|class|test|build|compile)\w*/i,
+  research: /\b(research|investigate|compare|analy[sz]e|evaluate|survey)\w*/i,
+  security: /\b(security|secure|auth\w*|vulnerab\w*|secret|token|xss|injection|cve)\b/i,
+  documentation: /\b(doc|docs|document\w*|readme|guide|tutorial|explain)\b/i,
+};
+
+/**
+ * Detect work types mentioned in a message.
+ */
+export function detectWorkTypes(message: string): string[] {
+  return Object.entries(WORK_TYPE_PATTERNS)
+    .filter(([, pattern]) => pattern.test(message))
+    .map(([workType]) => workType);
+}
+
+/**
+ * Find prompts scoring at or above the threshold, plus gates for the detected work.
+ */
+export function suggestPrompts(
+  message: string,
+  options: { threshold: number; maxResults: number },
+  promptsCache?: PromptsCache | null,
+  gatesCache?: GatesCache | null,
+  projectDir?: string
+): PromptSuggestions {
+  const prompts = matchPromptsToIntent(message, promptsCache, options.maxResults, projectDir)
+    .filter(([, , score]) => score >= options.threshold);
+  if (prompts.length === 0) {
+    return { prompts: [], gates: [] };
+  }
+
+  const gates = suggestGatesForWork(detectWorkTypes(message), gatesCache, projectDir);
+  return { prompts, gates };
+}
+
+/**
+ * Format suggestions as a short hint, e.g.
+ * "Relevant prompts: >>diagnose, >>review_chain (chain, 4 steps) | Gates: code-quality"
+ */
+export function formatPromptSuggestions(suggestions: PromptSuggestions): string {
+  if (suggestions.prompts.length === 0) {
+    return "";
+  }
+
+  const prompts = suggestions.prompts
+    .map(([id, info]) => (info.is_chain ? `>>${id} (chain, ${info.chain_steps} steps)` : `>>${id}`))
+    .join(", ");
+  const gates = suggestions.gates.map(([id]) => id).join(", ");
+  return `Relevant prompts: ${prompts}${gates ? ` | Gates: ${gates}` : ""}`;
+}
@@ -0,0 +1,219 @@
+/**
+ * `>>prompt` syntax parsing for OpenCode prompts plugin.
+ *
+ * Recognizes the claude-prompts command syntax in user messages:
+ *   >>prompt_id key:"value" key2:value free text
+ *   >>step_one arg:"x" --> >>step_two
+ */
+
+import type { PromptInfo, PromptsCache } from "./types.js";
+import { getPromptById } from "./cache-manager.js";
+
+/**
+ * Operator separating chained prompt invocations.
+ */
+export const CHAIN_OPERATOR = "-->";
+
+/**
+ * One `>>prompt_id ...` invocation.
+ */
+export interface PromptInvocation {
+  prompt_id: string;
+  /** key:value arguments, quotes removed */
+  args: Record<string, string>;
+  /** Text after the prompt id that is not a key:value argument */
+  text: string;
+}
+
+/**
+ * A `>>prompt` command found in a message.
+ */
+export interface ParsedPromptCommand {
+  /** Command text as written, from the first `>>` to the end of the message */
+  command: string;
+  steps: PromptInvocation[];
+}
+
+const COMMAND_PATTERN = /(?:^|\s)(>>[A-Za-z0-9][A-Za-z0-9_-]*[\s\S]*)/;
+const INVOCATION_PATTERN = /^>>([A-Za-z0-9][A-Za-z0-9_-]*)\s*([\s\S]*)$/;
+// A key starts the text or follows whitespace and is not a URL scheme, so
+// URLs and file positions (`file.ts:12`) stay free text
+const ARGUMENT_PATTERN = /(?<=^|\s)([A-Za-z_][A-Za-z0-9_]*):(?!\/\/)(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(\S+))/g;
+
+/**
+ * Parse the arguments of one invocation.
+ */
+function parseInvocation(segment: string): PromptInvocation | null {
+  const match = segment.trim().match(INVOCATION_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const args: Record<string, string> = {};
+  const text = match[2]
+    .replace(ARGUMENT_PATTERN, (_all, key: string, dq?: string, sq?: string, bare?: string) => {
+      args[key] = (dq ?? sq ?? bare ?? "").replace(/\\(["'\\])/g, "$1");
+      return " ";
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return { prompt_id: match[1], args, text };
+}
+
+/**
+ * Find and parse a `>>prompt` command in a message.
+ * Returns null if the message contains no command.
+ */
+export function parsePromptCommand(message: string): ParsedPromptCommand | null {
+  const match = message.match(COMMAND_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const command = match[1].trim();
+  const steps: PromptInvocation[] = [];
+  for (const segment of command.split(CHAIN_OPERATOR)) {
+    const invocation = parseInvocation(segment);
+    if (!invocation) {
+      return null;
+    }
+    steps.push(invocation);
+  }
+
+  return { command, steps };
+}
+
+/**
+ * Parse the command argument of a prompt_engine call.
+ * The leading `>>` is optional there.
+ */
+export function parseEngineCommand(command: string): ParsedPromptCommand | null {
+  const trimmed = command.trim();
+  return parsePromptCommand(trimmed.startsWith(">>") ? trimmed : `>>${trimmed}`);
+}
+
+/**
+ * Quote an argument value so parseInvocation reads it back unchanged.
+ */
+function formatArgumentValue(value: string): string {
+  if (value !== "" && !/[\s"'\\]/.test(value)) {
+    return value;
+  }
+  if (!value.includes('"') && !value.includes("\\")) {
+    return `"${value}"`;
+  }
+  if (!value.includes("'") && !value.includes("\\")) {
+    return `'${value}'`;
+  }
+  return `"${value.replace(/(["\\])/g, "\\$1")}"`;
+}
+
+/**
+ * Offsets of each step's arguments in a prompt_engine command, as
+ * [start, end) pairs keyed by argument name, plus the offset where new
+ * arguments go (after the last argument, or after the prompt id).
+ */
+function locateArguments(
+  command: string
+): Array<{ spans: Record<string, [number, number]>; insertAt: number }> | null {
+  // Mirror parseEngineCommand, mapping offsets back to the original text
+  const lead = command.length - command.trimStart().length;
+  const trimmed = command.trim();
+  const prefix = trimmed.startsWith(">>") ? "" : ">>";
+  const match = COMMAND_PATTERN.exec(prefix + trimmed);
+  if (!match) {
+    return null;
+  }
+  const toOriginal = (offset: number): number => offset - prefix.length + lead;
+
+  const steps: Array<{ spans: Record<string, [number, number]>; insertAt: number }> = [];
+  let segmentStart = match.index + match[0].indexOf(match[1]);
+  for (const segment of match[1].split(CHAIN_OPERATOR)) {
+    const id = /^\s*>>[A-Za-z0-9][A-Za-z0-9_-]*/.exec(segment);
+    if (!id) {
+      return null;
+    }
+    const spans: Record<string, [number, number]> = {};
+    let insertAt = segmentStart + id[0].length;
+    const argument = new RegExp(ARGUMENT_PATTERN.source, "g");
+    argument.lastIndex = id[0].length;
+    for (let found = argument.exec(segment); found; found = argument.exec(segment)) {
+      const start = segmentStart + found.index;
+      spans[found[1]] = [toOriginal(start), toOriginal(start + found[0].length)];
+      insertAt = start + found[0].length;
+    }
+    steps.push({ spans, insertAt: toOriginal(insertAt) });
+    segmentStart += segment.length + CHAIN_OPERATOR.length;
+  }
+  return steps;
+}
+
+/**
+ * Set argument values in a prompt_engine command, leaving everything else
+ * (modifiers, free text, line breaks) as written. Changed arguments are
+ * rewritten in place; new ones are added after the step's last argument.
+ *
+ * @param args - Arguments to set, per step
+ * @returns The rewritten command, or null if it would not parse back with those values
+ */
+export function setPromptArguments(command: string, args: Array<Record<string, string>>): string | null {
+  const located = locateArguments(command);
+  if (!located) {
+    return null;
+  }
+
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  args.forEach((stepArgs, index) => {
+    const step = located[index];
+    for (const [key, value] of Object.entries(stepArgs)) {
+      const text = `${key}:${formatArgumentValue(value)}`;
+      const span = step?.spans[key];
+      if (span) {
+        edits.push({ start: span[0], end: span[1], text });
+      } else if (step) {
+        edits.push({ start: step.insertAt, end: step.insertAt, text: ` ${text}` });
+      }
+    }
+  });
+
+  // Apply from the end so earlier offsets stay valid; insertions at one spot keep their order
+  let result = command;
+  for (const edit of edits.map((edit, order) => ({ ...edit, order })).sort((a, b) => b.start - a.start || b.order - a.order)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+
+  const reparsed = parseEngineCommand(result);
+  const roundTrips = args.every((stepArgs, index) =>
+    Object.entries(stepArgs).every(([key, value]) => reparsed?.steps[index]?.args[key] === value)
+  );
+  return roundTrips && reparsed?.steps.length === located.length ? result : null;
+}
+
+/**
+ * Resolve each step against the prompts cache.
+ * Unknown prompt ids map to null.
+ */
+export function resolvePromptCommand(
+  parsed: ParsedPromptCommand,
+  cache?: PromptsCache | null,
+  projectDir?: string
+): Array<[PromptInvocation, PromptInfo | null]> {
+  return parsed.steps.map((step) => [step, getPromptById(step.prompt_id, cache, projectDir)]);
+}
+
+/**
+ * Instruction telling the agent to run a detected command through prompt_engine.
+ */
+export function formatPromptInstruction(
+  parsed: ParsedPromptCommand,
+  prompts: PromptInfo[]
+): string {
+  const labels = prompts.map((prompt) =>
+    prompt.is_chain ? `${prompt.id} (chain, ${prompt.chain_steps} steps)` : prompt.id
+  );
+  return (
+    `[Prompt] Detected ${labels.join(" --> ")}. ` +
+    `Call prompt_engine with command: ${JSON.stringify(parsed.command)}`
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * Stale session state garbage collection for OpenCode prompts plugin.
+ *
+ * session.deleted never fires when OpenCode is killed, so session files
+ * under <workspace>/server/cache/sessions/ are swept at plugin load, on a
+ * timer, and from the CLI (`opencode-prompts gc`).
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync, unlinkSync } from "node:fs";
+import { join } from "node:path";
+import {
+  clearSessionState,
+  getSessionStateDir,
+  hasPendingWrite,
+  isChainFinished,
+} from "./session-state.js";
+import { migrateSessionState } from "./session-schema.js";
+
+export const DEFAULT_SESSION_TTL_HOURS = 72;
+
+export type SweepReason = "expired" | "finished";
+
+export interface SweepOptions {
+  projectDir?: string;
+  /** Remove sessions not written for this many hours */
+  ttlHours?: number;
+  /** Report what would be removed without removing it */
+  dryRun?: boolean;
+  /** Current time in ms (for tests) */
+  now?: number;
+}
+
+export interface SweepResult {
+  removed: Array<{ session_id: string; reason: SweepReason }>;
+  kept: number;
+}
+
+/**
+ * Decide whether a session file should be removed.
+ */
+function getSweepReason(path: string, ttlMs: number, now: number): SweepReason | null {
+  if (now - statSync(path).mtimeMs > ttlMs) {
+    return "expired";
+  }
+
+  try {
+    const session = migrateSessionState(JSON.parse(readFileSync(path, "utf-8")));
+    const chains = Object.values(session.chains);
+    if (chains.length > 0 && chains.every(isChainFinished)) {
+      return "finished";
+    }
+  } catch {
+    // Unreadable files are only removed once they expire
+  }
+  return null;
+}
+
+/**
+ * Remove session files past the TTL or whose chains have all finished.
+ * Sessions with a pending write are in use and always kept.
+ */
+export function sweepStaleSessions(options: SweepOptions = {}): SweepResult {
+  const result: SweepResult = { removed: [], kept: 0 };
+  const stateDir = getSessionStateDir(options.projectDir);
+  if (!existsSync(stateDir)) {
+    return result;
+  }
+
+  const ttlMs = (options.ttlHours ?? DEFAULT_SESSION_TTL_HOURS) * 60 * 60 * 1000;
+  const now = options.now ?? Date.now();
+
+  for (const file of readdirSync(stateDir)) {
+    if (!file.endsWith(".json")) continue;
+
+    const sessionId = file.slice(0, -".json".length);
+    const path = join(stateDir, file);
+    const reason = hasPendingWrite(sessionId) ? null : getSweepReason(path, ttlMs, now);
+    if (!reason) {
+      result.kept++;
+      continue;
+    }
+
+    if (!options.dryRun) {
+      clearSessionState(sessionId, options.projectDir);
+      if (existsSync(path)) {
+        unlinkSync(path);
+      }
+    }
+    result.removed.push({ session_id: sessionId, reason });
+  }
+
+  return result;
+}
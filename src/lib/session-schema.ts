@@ -0,0 +1,218 @@
+/**
+ * Persisted session state schema for OpenCode prompts plugin.
+ *
+ * Session files carry a schema_version. Older files are upgraded on load by
+ * running each migration from their version up to SESSION_SCHEMA_VERSION:
+ *   0 - a bare ChainState (one chain per session)
+ *   1 - SessionState without schema_version; chains may lack newer fields
+ *   2 - SessionState with schema_version and revision
+ *   3 - last_prompt_args and compaction marker
+ *   4 - chain status
+ *   5 - abandoned chains
+ *   6 - current format (last gate verdict)
+ */
+
+import type { ChainState, SessionState } from "./types.js";
+import { CHAIN_TRANSITIONS, deriveChainStatus } from "./chain-state-machine.js";
+
+export const SESSION_SCHEMA_VERSION = 6;
+
+type PersistedData = Record<string, unknown>;
+
+/**
+ * Chain state with every field at its default.
+ */
+export function createEmptyChainState(): ChainState {
+  return {
+    chain_id: "",
+    status: "idle",
+    current_step: 0,
+    total_steps: 0,
+    pending_gate: null,
+    gate_criteria: [],
+    last_prompt_id: "",
+    last_prompt_args: {},
+    pending_shell_verify: null,
+    shell_verify_attempts: 0,
+    // 0 = the response did not state a budget
+    shell_verify_max_attempts: 0,
+    shell_verify_outcome: null,
+    shell_verify_last_run: null,
+    last_gate_verdict: null,
+  };
+}
+
+function isRecord(value: unknown): value is PersistedData {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Migrations keyed by the version they upgrade from.
+ */
+const MIGRATIONS: Record<number, (data: PersistedData) => PersistedData> = {
+  0: (chain) => {
+    // Stored under DEFAULT_CHAIN_KEY when the chain has no id
+    const key = (typeof chain.chain_id === "string" && chain.chain_id) || "default";
+    return { active_chain_id: key, chains: { [key]: chain } };
+  },
+  1: (session) => {
+    const chains: Record<string, unknown> = {};
+    for (const [key, chain] of Object.entries(isRecord(session.chains) ? session.chains : {})) {
+      chains[key] = isRecord(chain) ? { ...createEmptyChainState(), ...chain } : chain;
+    }
+    return { timeline: [], revision: 0, ...session, chains };
+  },
+  2: (session) => {
+    const chains: Record<string, unknown> = {};
+    for (const [key, chain] of Object.entries(isRecord(session.chains) ? session.chains : {})) {
+      chains[key] = isRecord(chain) ? { last_prompt_args: {}, ...chain } : chain;
+    }
+    return { compaction: null, ...session, chains };
+  },
+  3: (session) => {
+    const chains: Record<string, unknown> = {};
+    for (const [key, chain] of Object.entries(isRecord(session.chains) ? session.chains : {})) {
+      chains[key] = isRecord(chain)
+        ? { ...chain, status: deriveChainStatus(chain as unknown as ChainState) }
+        : chain;
+    }
+    return { ...session, chains };
+  },
+  4: (session) => ({ abandoned: [], ...session }),
+  5: (session) => {
+    const chains: Record<string, unknown> = {};
+    for (const [key, chain] of Object.entries(isRecord(session.chains) ? session.chains : {})) {
+      chains[key] = isRecord(chain) ? { last_gate_verdict: null, ...chain } : chain;
+    }
+    const abandoned = Array.isArray(session.abandoned)
+      ? session.abandoned.map((record) =>
+          isRecord(record) && isRecord(record.chain)
+            ? { ...record, chain: { last_gate_verdict: null, ...record.chain } }
+            : record
+        )
+      : session.abandoned;
+    return { ...session, chains, abandoned };
+  },
+};
+
+/**
+ * Version of persisted data. Files written before versioning are inferred
+ * from their shape.
+ */
+function detectSchemaVersion(data: PersistedData): number {
+  if (typeof data.schema_version === "number") {
+    return data.schema_version;
+  }
+  return "chains" in data ? 1 : 0;
+}
+
+const CHAIN_FIELD_TYPES: Record<keyof ChainState, string> = {
+  chain_id: "string",
+  status: "string",
+  current_step: "number",
+  total_steps: "number",
+  pending_gate: "string|null",
+  gate_criteria: "array",
+  last_prompt_id: "string",
+  last_prompt_args: "object",
+  pending_shell_verify: "string|null",
+  shell_verify_attempts: "number",
+  shell_verify_max_attempts: "number",
+  shell_verify_outcome: "string|null",
+  shell_verify_last_run: "object|null",
+  last_gate_verdict: "object|null",
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Check current-version data. Returns problems found, empty if valid.
+ */
+export function validateSessionState(data: unknown): string[] {
+  if (!isRecord(data)) {
+    return ["not an object"];
+  }
+
+  const errors: string[] = [];
+  if (data.active_chain_id !== null && typeof data.active_chain_id !== "string") {
+    errors.push("active_chain_id must be a string or null");
+  }
+  if (!Array.isArray(data.timeline)) {
+    errors.push("timeline must be an array");
+  }
+  if (typeof data.revision !== "number") {
+    errors.push("revision must be a number");
+  }
+  if (data.compaction !== null && !isRecord(data.compaction)) {
+    errors.push("compaction must be an object or null");
+  }
+  if (!Array.isArray(data.abandoned)) {
+    errors.push("abandoned must be an array");
+  }
+  if (!isRecord(data.chains)) {
+    errors.push("chains must be an object");
+    return errors;
+  }
+
+  for (const [key, chain] of Object.entries(data.chains)) {
+    if (!isRecord(chain)) {
+      errors.push(`chains.${key} must be an object`);
+      continue;
+    }
+    for (const [field, expected] of Object.entries(CHAIN_FIELD_TYPES)) {
+      if (!expected.split("|").includes(typeOf(chain[field]))) {
+        errors.push(`chains.${key}.${field} must be ${expected.replace("|", " or ")}`);
+      }
+    }
+    if (typeof chain.status === "string" && !(chain.status in CHAIN_TRANSITIONS)) {
+      errors.push(`chains.${key}.status "${chain.status}" is not a chain status`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Whether persisted data was written by a newer plugin version.
+ */
+export function isNewerSessionSchema(data: unknown): boolean {
+  return isRecord(data) && detectSchemaVersion(data) > SESSION_SCHEMA_VERSION;
+}
+
+/**
+ * Upgrade persisted data to the current schema and validate it.
+ *
+ * @throws Error if the data is invalid or from a newer plugin version
+ */
+export function migrateSessionState(data: unknown): SessionState {
+  if (!isRecord(data)) {
+    throw new Error("Session state is not an object");
+  }
+
+  let version = detectSchemaVersion(data);
+  if (version > SESSION_SCHEMA_VERSION) {
+    throw new Error(
+      `Session state schema_version ${version} is newer than supported (${SESSION_SCHEMA_VERSION})`
+    );
+  }
+
+  let migrated = data;
+  while (version < SESSION_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from session state schema_version ${version}`);
+    }
+    migrated = migrate(migrated);
+    version++;
+  }
+  migrated = { ...migrated, schema_version: SESSION_SCHEMA_VERSION };
+
+  const errors = validateSessionState(migrated);
+  if (errors.length > 0) {
+    throw new Error(`Invalid session state: ${errors.join("; ")}`);
+  }
+  return migrated as unknown as SessionState;
+}
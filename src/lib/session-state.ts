@@ -2,18 +2,82 @@
  * Session state manager for OpenCode prompts plugin.
  * Tracks chain/gate state per conversation session.
  *
- * Unlike Python version (file-based), this uses in-memory Map for state
- * since OpenCode plugins persist in memory during the session.
+ * The in-memory Map is the primary store. Changes are written behind to
+ * <workspace>/server/cache/sessions/<session>.json (debounced, atomic
+ * temp file + rename) so chains can resume after an OpenCode restart.
+ *
+ * Other OpenCode instances in the same project share those files. Reads and
+ * writes hold an advisory lock (file-lock.ts), and each write bumps the
+ * file's revision. If the file changed since this process last read it, the
+ * pending changes are replayed onto the file's content instead of
+ * overwriting it.
+ *
+ * Files from older plugin versions are migrated on load (session-schema.ts);
+ * files that fail to parse or validate are moved to sessions/quarantine/.
  */
 
-import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from "node:fs";
-import { dirname, join } from "node:path";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { basename, dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
-import type { ChainState } from "./types.js";
+import type {
+  ChainState,
+  ChainStateBlock,
+  ParseStrategy,
+  PromptEngineParseResult,
+  SessionState,
+} from "./types.js";
+import { withFileLock } from "./file-lock.js";
+import { isTerminalStatus } from "./chain-state-machine.js";
+import {
+  createEmptyChainState,
+  isNewerSessionSchema,
+  migrateSessionState,
+  SESSION_SCHEMA_VERSION,
+} from "./session-schema.js";
 import { getCacheDir } from "./workspace.js";
 
 // In-memory session state (primary storage for OpenCode)
-const sessionStates = new Map<string, ChainState>();
+const sessionStates = new Map<string, SessionState>();
+
+/**
+ * File persistence settings (see configureSessionPersistence).
+ */
+export interface SessionPersistenceOptions {
+  /** Persist by default when callers don't say otherwise */
+  enabled: boolean;
+  /** Delay before a changed session is written; 0 writes immediately */
+  debounceMs: number;
+}
+
+const persistence: SessionPersistenceOptions = {
+  enabled: true,
+  debounceMs: 250,
+};
+
+/**
+ * A change to a session record. Changes are kept until written so they can
+ * be replayed onto another process's newer copy of the file.
+ */
+export type SessionChange = (session: SessionState) => void;
+
+// Sessions waiting to be written, with the path resolved when the change was made
+const pendingWrites = new Map<
+  string,
+  { path: string; timer: ReturnType<typeof setTimeout> | null; changes: SessionChange[] }
+>();
+
+/**
+ * Key used for chain state that carries no chain_id (single prompts with gates).
+ */
+export const DEFAULT_CHAIN_KEY = "default";
 
 // Resolve fallback session state directory
 let FALLBACK_SESSION_DIR: string;
@@ -28,7 +92,7 @@ try {
 /**
  * Get session state directory path.
  */
-function getSessionStateDir(projectDir?: string): string {
+export function getSessionStateDir(projectDir?: string): string {
   const cacheDir = getCacheDir(FALLBACK_SESSION_DIR, projectDir);
   return join(cacheDir, "sessions");
 }
@@ -45,13 +109,57 @@ function getSessionStatePath(sessionId: string, projectDir?: string): string {
 }
 
 /**
- * Load chain state for a session.
+ * Get the key a chain is stored under in SessionState.chains.
+ */
+export function getChainKey(state: ChainState): string {
+  return state.chain_id || DEFAULT_CHAIN_KEY;
+}
+
+/**
+ * Whether a chain still has step, gate or shell verify work outstanding.
+ */
+export function isChainActive(state: ChainState): boolean {
+  if (isTerminalStatus(state.status)) {
+    return false;
+  }
+  return (
+    state.current_step > 0 ||
+    state.pending_gate !== null ||
+    state.pending_shell_verify !== null
+  );
+}
+
+/**
+ * Whether a chain completed or was abandoned, or ran to its last step with
+ * no gate or verification outstanding.
+ */
+export function isChainFinished(state: ChainState): boolean {
+  if (isTerminalStatus(state.status)) {
+    return true;
+  }
+  return (
+    state.total_steps > 0 &&
+    state.current_step >= state.total_steps &&
+    state.pending_gate === null &&
+    state.pending_shell_verify === null
+  );
+}
+
+/**
+ * Whether a session has a write waiting in the write-behind queue.
+ */
+export function hasPendingWrite(sessionId: string): boolean {
+  return pendingWrites.has(sessionId);
+}
+
+/**
+ * Load all tracked chains for a session.
  * Checks in-memory first, then falls back to file.
  */
-export function loadSessionState(
+export function loadSession(
   sessionId: string,
   projectDir?: string
-): ChainState | null {
+): SessionState | null {
   // Check in-memory first (primary for OpenCode)
   const inMemory = sessionStates.get(sessionId);
   if (inMemory) {
@@ -65,52 +173,391 @@ export function loadSessionState(
   }
 
   try {
-    const content = readFileSync(statePath, "utf-8");
-    const state = JSON.parse(content) as ChainState;
+    const session = withFileLock(statePath, () => readSessionFile(statePath));
+    if (!session) {
+      return null;
+    }
     // Cache in memory for faster subsequent access
-    sessionStates.set(sessionId, state);
-    return state;
+    sessionStates.set(sessionId, session);
+    return session;
   } catch {
     return null;
   }
 }
 
 /**
- * Save chain state for a session.
- * Stores in-memory and optionally persists to file.
+ * Read a session file, migrating it to the current schema.
+ * Invalid files are quarantined. The caller holds its lock.
+ *
+ * @throws Error if a newer plugin version wrote the file; it is left in
+ *   place for that version and must not be overwritten
  */
-export function saveSessionState(
+function readSessionFile(path: string): SessionState | null {
+  if (!existsSync(path)) {
+    return null;
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    quarantineSessionFile(path, error instanceof Error ? error.message : String(error));
+    return null;
+  }
+
+  if (isNewerSessionSchema(data)) {
+    throw new Error(`${path} was written by a newer plugin version (supported schema: ${SESSION_SCHEMA_VERSION})`);
+  }
+  try {
+    return migrateSessionState(data);
+  } catch (error) {
+    quarantineSessionFile(path, error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
+
+/**
+ * Get the directory invalid session files are moved to.
+ */
+export function getQuarantineDir(projectDir?: string): string {
+  return join(getSessionStateDir(projectDir), "quarantine");
+}
+
+/**
+ * Move an unreadable session file aside so it is kept for inspection
+ * instead of being overwritten or retried on every load.
+ */
+function quarantineSessionFile(path: string, reason: string): void {
+  const quarantineDir = join(dirname(path), "quarantine");
+  const target = join(quarantineDir, `${basename(path, ".json")}.${Date.now()}.json`);
+  try {
+    mkdirSync(quarantineDir, { recursive: true });
+    renameSync(path, target);
+    console.warn(`[opencode-prompts] Quarantined session state ${path} -> ${target}: ${reason}`);
+  } catch {
+    console.warn(`[opencode-prompts] Invalid session state ${path}: ${reason}`);
+  }
+}
+
+/**
+ * Create an empty session record.
+ */
+export function createSessionState(): SessionState {
+  return {
+    schema_version: SESSION_SCHEMA_VERSION,
+    active_chain_id: null,
+    chains: {},
+    timeline: [],
+    revision: 0,
+    compaction: null,
+    abandoned: [],
+  };
+}
+
+/**
+ * Store a whole session record (chains and timeline).
+ * Replaces the record in other processes' files too; prefer updateSession.
+ * Stores in-memory and persists to file unless persistence is disabled.
+ */
+export function saveSession(
   sessionId: string,
-  state: ChainState,
+  session: SessionState,
   projectDir?: string,
-  persistToFile = false
+  persistToFile = persistence.enabled
 ): void {
-  // Always store in memory
-  sessionStates.set(sessionId, state);
+  sessionStates.set(sessionId, session);
+  if (persistToFile) {
+    writeSessionFile(sessionId, projectDir, (target) => {
+      target.active_chain_id = session.active_chain_id;
+      target.chains = session.chains;
+      target.timeline = session.timeline;
+    });
+  }
+}
 
-  // Optionally persist to file (for recovery across restarts)
+/**
+ * Apply a change to a session record, creating the record if needed.
+ * The change may be replayed onto a newer copy written by another process,
+ * so it must only depend on its argument and values captured up front.
+ * Stores in-memory and persists to file unless persistence is disabled.
+ */
+export function updateSession(
+  sessionId: string,
+  change: SessionChange,
+  projectDir?: string,
+  persistToFile = persistence.enabled
+): SessionState {
+  const session = loadSession(sessionId, projectDir) ?? createSessionState();
+  change(session);
+  sessionStates.set(sessionId, session);
   if (persistToFile) {
-    const statePath = getSessionStatePath(sessionId, projectDir);
-    try {
-      writeFileSync(statePath, JSON.stringify(state, null, 2));
-    } catch {
-      // Silently fail file persistence
+    writeSessionFile(sessionId, projectDir, change);
+  }
+  return session;
+}
+
+/**
+ * Write a file atomically: write a temp file next to it, then rename over it.
+ */
+function writeFileAtomic(path: string, content: string): void {
+  const tempPath = `${path}.${process.pid}.tmp`;
+  try {
+    writeFileSync(tempPath, content);
+    renameSync(tempPath, path);
+  } catch (error) {
+    if (existsSync(tempPath)) {
+      unlinkSync(tempPath);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a session's current in-memory state to its file now.
+ * If another process wrote the file since it was last read here, the
+ * pending changes are replayed onto that copy, which becomes the
+ * in-memory state.
+ */
+function writeSessionNow(sessionId: string, path: string, changes: SessionChange[]): void {
+  const session = sessionStates.get(sessionId);
+  if (!session) {
+    return;
+  }
+  try {
+    withFileLock(path, () => {
+      const onDisk = readSessionFile(path);
+      if (onDisk && onDisk.revision !== session.revision) {
+        for (const change of changes) {
+          change(onDisk);
+        }
+        console.warn(
+          `[opencode-prompts] Session ${sessionId} was changed by another process ` +
+            `(revision ${onDisk.revision}, expected ${session.revision}); ` +
+            `merged ${changes.length} local change(s)`
+        );
+        Object.assign(session, onDisk);
+      }
+      session.revision = Math.max(session.revision, onDisk?.revision ?? 0) + 1;
+      writeFileAtomic(path, JSON.stringify(session, null, 2));
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[opencode-prompts] Could not write session state: ${message}`);
+  }
+}
+
+/**
+ * Persist a session to its state file (debounced write-behind).
+ */
+function writeSessionFile(sessionId: string, projectDir: string | undefined, change: SessionChange): void {
+  const path = getSessionStatePath(sessionId, projectDir);
+  const pending = pendingWrites.get(sessionId);
+  if (pending?.timer) {
+    clearTimeout(pending.timer);
+  }
+  const changes = [...(pending?.changes ?? []), change];
+
+  if (persistence.debounceMs <= 0) {
+    pendingWrites.delete(sessionId);
+    writeSessionNow(sessionId, path, changes);
+    return;
+  }
+
+  const timer = setTimeout(() => {
+    pendingWrites.delete(sessionId);
+    writeSessionNow(sessionId, path, changes);
+  }, persistence.debounceMs);
+  // Pending writes must not keep the process alive; flushSessionStates covers exit
+  timer.unref?.();
+  pendingWrites.set(sessionId, { path, timer, changes });
+}
+
+/**
+ * Configure file persistence for session state.
+ */
+export function configureSessionPersistence(options: Partial<SessionPersistenceOptions>): void {
+  Object.assign(persistence, options);
+}
+
+/**
+ * Write pending session changes to disk immediately.
+ *
+ * @param sessionId - Only write this session (default: all sessions)
+ * @returns Number of sessions written
+ */
+export function flushSessionStates(sessionId?: string): number {
+  const pending = [...pendingWrites.entries()].filter(([id]) => sessionId === undefined || id === sessionId);
+
+  for (const [id, { path, timer, changes }] of pending) {
+    pendingWrites.delete(id);
+    if (timer) {
+      clearTimeout(timer);
     }
+    writeSessionNow(id, path, changes);
+  }
+  return pending.length;
+}
+
+/**
+ * Load every persisted session into memory (plugin start).
+ * Sessions already in memory are kept as they are.
+ *
+ * @returns IDs of the sessions restored from disk
+ */
+export function loadAllSessionStates(projectDir?: string): string[] {
+  const stateDir = getSessionStateDir(projectDir);
+  if (!existsSync(stateDir)) {
+    return [];
+  }
+
+  const restored: string[] = [];
+  for (const file of readdirSync(stateDir)) {
+    if (!file.endsWith(".json")) continue;
+    const sessionId = file.slice(0, -".json".length);
+    if (sessionStates.has(sessionId)) continue;
+    if (loadSession(sessionId, projectDir)) {
+      restored.push(sessionId);
+    }
+  }
+  return restored;
+}
+
+/**
+ * Load chain state for a session.
+ *
+ * @param chainId - Chain to load; defaults to the session's active chain
+ */
+export function loadSessionState(
+  sessionId: string,
+  projectDir?: string,
+  chainId?: string
+): ChainState | null {
+  const session = loadSession(sessionId, projectDir);
+  if (!session) {
+    return null;
+  }
+
+  const key = chainId || session.active_chain_id;
+  if (!key) {
+    return null;
   }
+  return session.chains[key] ?? null;
 }
 
 /**
- * Clear chain state when chain completes.
+ * Save chain state for a session and make it the active chain.
+ * Other chains in the session are kept.
+ * Stores in-memory and persists to file unless persistence is disabled.
+ */
+export function saveSessionState(
+  sessionId: string,
+  state: ChainState,
+  projectDir?: string,
+  persistToFile = persistence.enabled
+): void {
+  const key = getChainKey(state);
+
+  // Always store in memory; optionally persist to file (for recovery across restarts)
+  updateSession(
+    sessionId,
+    (session) => {
+      session.chains[key] = state;
+      session.active_chain_id = key;
+    },
+    projectDir,
+    persistToFile
+  );
+}
+
+/**
+ * List active chains for a session, active chain first.
+ */
+export function listSessionChains(sessionId: string, projectDir?: string): ChainState[] {
+  const session = loadSession(sessionId, projectDir);
+  if (!session) {
+    return [];
+  }
+
+  const chains = Object.entries(session.chains)
+    .filter(([, chain]) => isChainActive(chain))
+    .sort(([a], [b]) => Number(b === session.active_chain_id) - Number(a === session.active_chain_id));
+  return chains.map(([, chain]) => chain);
+}
+
+/**
+ * Point the session's active chain at an already tracked chain.
+ *
+ * @returns false if the chain is not tracked in this session
+ */
+export function setActiveChain(
+  sessionId: string,
+  chainId: string,
+  projectDir?: string,
+  persistToFile = persistence.enabled
+): boolean {
+  const session = loadSession(sessionId, projectDir);
+  if (!session?.chains[chainId]) {
+    return false;
+  }
+
+  updateSession(
+    sessionId,
+    (target) => {
+      if (target.chains[chainId]) {
+        target.active_chain_id = chainId;
+      }
+    },
+    projectDir,
+    persistToFile
+  );
+  return true;
+}
+
+/**
+ * Remove one chain from a session.
+ * If it was active, the most recently added remaining chain becomes active.
+ */
+export function removeChainState(
+  sessionId: string,
+  chainId: string,
+  projectDir?: string,
+  persistToFile = persistence.enabled
+): void {
+  const session = loadSession(sessionId, projectDir);
+  if (!session?.chains[chainId]) {
+    return;
+  }
+
+  updateSession(
+    sessionId,
+    (target) => {
+      delete target.chains[chainId];
+      if (target.active_chain_id === chainId) {
+        const remaining = Object.keys(target.chains);
+        target.active_chain_id = remaining.length > 0 ? remaining[remaining.length - 1] : null;
+      }
+    },
+    projectDir,
+    persistToFile
+  );
+}
+
+/**
+ * Clear all chain state for a session.
  */
 export function clearSessionState(sessionId: string, projectDir?: string): void {
-  // Clear in-memory
+  // Clear in-memory and drop any pending write
   sessionStates.delete(sessionId);
+  const pending = pendingWrites.get(sessionId);
+  if (pending?.timer) {
+    clearTimeout(pending.timer);
+  }
+  pendingWrites.delete(sessionId);
 
   // Clear file if exists
   const statePath = getSessionStatePath(sessionId, projectDir);
   if (existsSync(statePath)) {
     try {
-      unlinkSync(statePath);
+      withFileLock(statePath, () => unlinkSync(statePath));
     } catch {
       // Silently fail
     }
@@ -120,56 +567,145 @@ export function clearSessionState(sessionId: string, projectDir?: string): void
 /**
  * Get all in-memory session states (for debugging).
  */
-export function getAllSessionStates(): Map<string, ChainState> {
+export function getAllSessionStates(): Map<string, SessionState> {
   return new Map(sessionStates);
 }
 
 /**
- * Parse prompt_engine response to extract chain/gate state.
+ * Structured chain state protocol understood by this plugin.
+ * Blocks with a newer major version fall back to legacy parsing.
+ */
+export const CHAIN_STATE_PROTOCOL = "claude-prompts/chain-state";
+export const CHAIN_STATE_PROTOCOL_VERSION = 1;
+
+/**
+ * Shell verify attempt budget when the response does not state one.
+ */
+export const DEFAULT_SHELL_VERIFY_MAX_ATTEMPTS = 5;
+
+const FENCED_BLOCK_PATTERN = /```chain-state[ \t]*\r?\n([\s\S]*?)\r?\n```/;
+
+/**
+ * Only return state if we found chain/gate/verify info.
+ */
+function hasChainInfo(state: ChainState): boolean {
+  return state.current_step > 0 || Boolean(state.pending_gate) || Boolean(state.pending_shell_verify);
+}
+
+/**
+ * Flatten a prompt_engine response (string or MCP result object) to text.
+ */
+function extractResponseText(response: string | Record<string, unknown>): string {
+  if (typeof response !== "object" || response === null) {
+    return String(response);
+  }
+
+  const contentField = response.content;
+  if (typeof contentField === "string") {
+    return contentField;
+  }
+  if (Array.isArray(contentField)) {
+    // Handle array of content blocks
+    return contentField
+      .map((block) => {
+        if (typeof block === "string") return block;
+        if (typeof block === "object" && block !== null && "text" in block) {
+          return (block as { text: string }).text;
+        }
+        return String(block);
+      })
+      .join(" ");
+  }
+  return String(response);
+}
+
+function isOptional(value: unknown, type: "string" | "number"): boolean {
+  return value === undefined || value === null || (type === "number" ? Number.isFinite(value) : typeof value === type);
+}
+
+function isObjectOrAbsent(value: unknown): value is Record<string, unknown> | null | undefined {
+  return value === undefined || value === null || (typeof value === "object" && !Array.isArray(value));
+}
+
+/**
+ * Check the field types of a chain state block.
+ *
+ * @returns The first mistyped field, or null if all fields are usable
+ */
+function findInvalidBlockField(data: Record<string, unknown>): string | null {
+  if (!isOptional(data.chain_id, "string")) return "chain_id";
+  if (!isOptional(data.prompt_id, "string")) return "prompt_id";
+
+  const { step, gate, shell_verify: verify } = data;
+  if (!isObjectOrAbsent(step)) return "step";
+  if (step && !(Number.isFinite(step.current) && Number.isFinite(step.total))) return "step";
+
+  if (!isObjectOrAbsent(gate)) return "gate";
+  if (gate && !isOptional(gate.name, "string")) return "gate.name";
+  if (gate?.criteria !== undefined && gate.criteria !== null && !Array.isArray(gate.criteria)) {
+    return "gate.criteria";
+  }
+
+  if (!isObjectOrAbsent(verify)) return "shell_verify";
+  if (verify && !isOptional(verify.command, "string")) return "shell_verify.command";
+  if (verify && !isOptional(verify.attempt, "number")) return "shell_verify.attempt";
+  if (verify && !isOptional(verify.max_attempts, "number")) return "shell_verify.max_attempts";
+  return null;
+}
+
+/**
+ * Convert a structured chain state block to ChainState.
+ * Returns an error string when the block is unusable, including when a
+ * field has the wrong type.
+ */
+function chainStateFromBlock(block: unknown): ChainState | string {
+  if (typeof block !== "object" || block === null) {
+    return "chain state block is not an object";
+  }
+
+  const data = block as Partial<ChainStateBlock>;
+  if (data.protocol !== CHAIN_STATE_PROTOCOL) {
+    return `unknown protocol "${String(data.protocol)}"`;
+  }
+  if (typeof data.version !== "number" || Math.floor(data.version) > CHAIN_STATE_PROTOCOL_VERSION) {
+    return `unsupported protocol version ${String(data.version)} (supported: ${CHAIN_STATE_PROTOCOL_VERSION})`;
+  }
+  const invalidField = findInvalidBlockField(block as Record<string, unknown>);
+  if (invalidField) {
+    return `invalid field "${invalidField}"`;
+  }
+
+  const state = createEmptyChainState();
+  state.chain_id = data.chain_id ?? "";
+  state.last_prompt_id = data.prompt_id ?? "";
+
+  if (data.step) {
+    state.current_step = Number(data.step.current) || 0;
+    state.total_steps = Number(data.step.total) || 0;
+  }
+  if (data.gate?.name) {
+    state.pending_gate = data.gate.name;
+    state.gate_criteria = (data.gate.criteria ?? []).filter((c) => typeof c === "string" && c.length > 0);
+  }
+  if (data.shell_verify?.command) {
+    state.pending_shell_verify = data.shell_verify.command;
+    state.shell_verify_attempts = Number(data.shell_verify.attempt) || 0;
+    state.shell_verify_max_attempts = Number(data.shell_verify.max_attempts) || 0;
+  }
+
+  return state;
+}
+
+/**
+ * Scrape chain/gate markers from rendered markdown (pre-protocol servers).
  *
  * The response typically contains markers like:
  * - "Step X of Y"
  * - "## Inline Gates" section
  * - Gate criteria in the rendered prompt
  */
-export function parsePromptEngineResponse(
-  response: string | Record<string, unknown>
-): ChainState | null {
-  let content: string;
-
-  if (typeof response === "object" && response !== null) {
-    // Handle structured response
-    const contentField = response.content;
-    if (typeof contentField === "string") {
-      content = contentField;
-    } else if (Array.isArray(contentField)) {
-      // Handle array of content blocks
-      content = contentField
-        .map((block) => {
-          if (typeof block === "string") return block;
-          if (typeof block === "object" && block !== null && "text" in block) {
-            return (block as { text: string }).text;
-          }
-          return String(block);
-        })
-        .join(" ");
-    } else {
-      content = String(response);
-    }
-  } else {
-    content = String(response);
-  }
-
-  const state: ChainState = {
-    chain_id: "",
-    current_step: 0,
-    total_steps: 0,
-    pending_gate: null,
-    gate_criteria: [],
-    last_prompt_id: "",
-    pending_shell_verify: null,
-    shell_verify_attempts: 0,
-  };
+function parseLegacyResponse(content: string): ChainState {
+  const state = createEmptyChainState();
 
   // Detect step indicators: "Step 1 of 3", "step 2/4", "Progress 1/2", etc.
   const stepMatch = content.match(
@@ -215,18 +751,94 @@ export function parsePromptEngineResponse(
   const attemptMatch = content.match(/Attempt\s+(\d+)\/(\d+)/);
   if (attemptMatch) {
     state.shell_verify_attempts = parseInt(attemptMatch[1], 10);
+    state.shell_verify_max_attempts = parseInt(attemptMatch[2], 10) || 0;
   }
 
-  // Only return state if we found chain/gate/verify info
-  if (
-    state.current_step > 0 ||
-    state.pending_gate ||
-    state.pending_shell_verify
-  ) {
-    return state;
+  return state;
+}
+
+/**
+ * Parse prompt_engine response and report which strategy produced the state.
+ *
+ * Order of precedence:
+ * 1. `structuredContent.chain_state` on an MCP result object
+ * 2. A ```chain-state fenced JSON block in the response text
+ * 3. Legacy regex scraping of the rendered markdown
+ *
+ * A structured block that is malformed or uses an unsupported protocol version
+ * is reported in `warnings` and parsing falls back to the next strategy.
+ */
+export function parsePromptEngineResponseWithStrategy(
+  response: string | Record<string, unknown>
+): PromptEngineParseResult {
+  const warnings: string[] = [];
+  let protocolVersion: number | null = null;
+
+  const accept = (block: unknown, strategy: ParseStrategy): PromptEngineParseResult | null => {
+    const version = (block as { version?: unknown } | null)?.version;
+    if (typeof version === "number") {
+      protocolVersion = version;
+    }
+    const parsed = chainStateFromBlock(block);
+    if (typeof parsed === "string") {
+      warnings.push(`${strategy}: ${parsed}`);
+      return null;
+    }
+    return {
+      state: hasChainInfo(parsed) ? parsed : null,
+      strategy,
+      protocol_version: protocolVersion,
+      warnings,
+    };
+  };
+
+  // 1. structuredContent on the MCP result
+  if (typeof response === "object" && response !== null) {
+    const structured = response.structuredContent;
+    if (typeof structured === "object" && structured !== null && "chain_state" in structured) {
+      const result = accept((structured as { chain_state: unknown }).chain_state, "structured-content");
+      if (result) {
+        return result;
+      }
+    }
   }
 
-  return null;
+  const content = extractResponseText(response);
+
+  // 2. Fenced chain-state block in text
+  const fenced = content.match(FENCED_BLOCK_PATTERN);
+  if (fenced) {
+    let block: unknown;
+    try {
+      block = JSON.parse(fenced[1]);
+    } catch {
+      warnings.push("fenced-block: invalid JSON");
+    }
+    if (block !== undefined) {
+      const result = accept(block, "fenced-block");
+      if (result) {
+        return result;
+      }
+    }
+  }
+
+  // 3. Legacy regex fallback
+  const legacy = parseLegacyResponse(content);
+  if (hasChainInfo(legacy)) {
+    return { state: legacy, strategy: "legacy-regex", protocol_version: protocolVersion, warnings };
+  }
+
+  return { state: null, strategy: "none", protocol_version: protocolVersion, warnings };
+}
+
+/**
+ * Parse prompt_engine response to extract chain/gate state.
+ * See parsePromptEngineResponseWithStrategy for the parsing order.
+ */
+export function parsePromptEngineResponse(
+  response: string | Record<string, unknown>
+): ChainState | null {
+  return parsePromptEngineResponseWithStrategy(response).state;
 }
 
 /**
@@ -245,6 +857,9 @@ export function formatChainReminder(
   const gate = state.pending_gate;
   const verifyCmd = state.pending_shell_verify;
   const verifyAttempts = state.shell_verify_attempts || 1;
+  const verifyMax = state.shell_verify_max_attempts || DEFAULT_SHELL_VERIFY_MAX_ATTEMPTS;
+  const escalated = state.shell_verify_outcome === "escalated";
+  const lastRun = state.shell_verify_last_run;
 
   if (mode === "inline") {
     // Two-line hybrid: Line 1 = status, Line 2 = action
@@ -257,13 +872,17 @@ export function formatChainReminder(
       parts.push(`Gate: ${gate}`);
     }
     if (verifyCmd) {
-      parts.push(`Verify: ${verifyAttempts}/5`);
+      parts.push(`Verify: ${verifyAttempts}/${verifyMax}${escalated ? " (exhausted)" : ""}`);
     }
     const line1 = parts.length > 0 ? parts.join(" | ") : "";
 
     // Line 2: Clear continuation instruction
     let line2 = "";
-    if (verifyCmd) {
+    if (verifyCmd && escalated) {
+      line2 = "→ Verify budget used up: stop and ask the user how to proceed";
+    } else if (verifyCmd && lastRun?.passed === false) {
+      line2 = `→ Last run failed: ${lastRun.summary} - fix, then \`${verifyCmd}\` again`;
+    } else if (verifyCmd) {
       line2 = `→ Shell verify: \`${verifyCmd}\` will validate`;
     } else if (gate) {
       line2 = "→ GATE_REVIEW: PASS|FAIL - <reason>";
@@ -289,9 +908,48 @@ export function formatChainReminder(
   }
 
   if (verifyCmd) {
-    lines.push(`[Verify] \`${verifyCmd}\` - Attempt ${verifyAttempts}/5`);
-    lines.push("Run implementation, then prompt_engine validates with shell command");
+    lines.push(`[Verify] \`${verifyCmd}\` - Attempt ${verifyAttempts}/${verifyMax}`);
+    if (lastRun) {
+      lines.push(
+        lastRun.passed === null
+          ? `Last run finished (exit status unknown): ${lastRun.summary}`
+          : lastRun.passed
+            ? `Last run passed: ${lastRun.summary}`
+            : `Last run failed (exit ${lastRun.exit_code ?? "?"}): ${lastRun.summary}`
+      );
+    }
+    if (escalated) {
+      lines.push("Attempt budget used up - stop and ask the user how to proceed");
+    } else {
+      lines.push("Run implementation, then prompt_engine validates with shell command");
+    }
   }
 
   return lines.join("\n");
 }
+
+/**
+ * Format a reminder covering every active chain in a session.
+ * The active chain is listed first; a single chain formats like formatChainReminder.
+ *
+ * @param chains - Active chains, active chain first (see listSessionChains)
+ * @param mode - "full" for PreCompact (multi-line), "inline" for prompt-suggest (two-line)
+ */
+export function formatSessionReminder(
+  chains: ChainState[],
+  mode: "full" | "inline" = "full"
+): string {
+  if (chains.length === 0) {
+    return "";
+  }
+  if (chains.length === 1) {
+    return formatChainReminder(chains[0], mode);
+  }
+
+  const active = chains[0];
+  const header = `[Chains] ${chains.length} open (active: ${active.chain_id || "unnamed"})`;
+  const reminders = chains
+    .map((chain) => formatChainReminder(chain, mode))
+    .filter((reminder) => reminder.length > 0);
+  return [header, ...reminders].join("\n");
+}
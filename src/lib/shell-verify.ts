@@ -0,0 +1,220 @@
+/**
+ * Shell verification tracking for OpenCode prompts plugin.
+ * Counts verification attempts per chain and escalates when the budget is used up.
+ * Attempts come from prompt_engine responses and from the agent's own bash/shell
+ * tool runs of the pending verification command.
+ */
+
+import type { ChainState, ShellVerifyRun } from "./types.js";
+import type { ShellVerifyConfig } from "./plugin-config.js";
+
+const OUTPUT_TAIL_LINES = 20;
+const OUTPUT_TAIL_MAX_CHARS = 2000;
+const SUMMARY_MAX_CHARS = 120;
+
+/**
+ * Escalate once attempts exceed the budget, or once the last allowed attempt
+ * has failed.
+ *
+ * @param failedRun - Whether the current attempt was observed to fail
+ * @returns true if this call escalated
+ */
+function checkBudget(state: ChainState, config: ShellVerifyConfig, failedRun = false): boolean {
+  if (state.shell_verify_outcome === "escalated" || config.escalation === "off") {
+    return false;
+  }
+  const limit = state.shell_verify_max_attempts;
+  if (state.shell_verify_attempts > limit || (failedRun && state.shell_verify_attempts >= limit)) {
+    state.shell_verify_outcome = "escalated";
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Count a shell verify attempt and apply the attempt budget.
+ *
+ * Each prompt_engine response that still carries the same verification command
+ * is one more attempt. The plugin's own count wins over a lower count in the
+ * response, so a server that resets or omits it cannot extend the loop.
+ *
+ * @param previous - Same chain before this response (null for a new chain)
+ * @param next - State parsed from the response; updated in place
+ * @returns true if this update used up the budget (newly escalated)
+ */
+export function applyShellVerifyBudget(
+  previous: ChainState | null,
+  next: ChainState,
+  config: ShellVerifyConfig
+): boolean {
+  if (!next.pending_shell_verify) {
+    return false;
+  }
+
+  const sameCommand = previous?.pending_shell_verify === next.pending_shell_verify;
+  const lastRun = sameCommand ? previous?.shell_verify_last_run ?? null : null;
+
+  // A shell run already counted as an attempt; the response validating it is the same attempt
+  const counted = sameCommand
+    ? (previous?.shell_verify_attempts ?? 0) + (lastRun && !lastRun.acknowledged ? 0 : 1)
+    : 1;
+  next.shell_verify_attempts = Math.max(next.shell_verify_attempts, counted);
+  next.shell_verify_max_attempts =
+    next.shell_verify_max_attempts ||
+    (sameCommand ? previous?.shell_verify_max_attempts : 0) ||
+    config.maxAttempts;
+  next.shell_verify_last_run = lastRun ? { ...lastRun, acknowledged: true } : null;
+
+  if (sameCommand && previous?.shell_verify_outcome === "escalated") {
+    next.shell_verify_outcome = "escalated";
+    return false;
+  }
+
+  return checkBudget(next, config);
+}
+
+/**
+ * Whether a tool is the agent's bash/shell tool.
+ */
+export function isShellTool(tool: string | undefined): boolean {
+  return /(^|[_.])(bash|shell)$/i.test(tool ?? "");
+}
+
+const COMMAND_SEPARATOR = /\s*(?:&&|\|\||;|\|)\s*/;
+// Redirections after a command: "npm test 2>&1", "npm test > out.txt"
+const TRAILING_REDIRECTS = /^(?:\s+\d*(?:>>?|<)&?\s*\S+)+$/;
+
+function normalizeCommand(command: string): string {
+  return command.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Split a shell command into the commands chained by &&, ||, ; and |.
+ */
+function splitCommand(command: string): string[] {
+  return normalizeCommand(command).split(COMMAND_SEPARATOR).filter(Boolean);
+}
+
+function matchesSegment(ran: string | undefined, expected: string): boolean {
+  if (ran === undefined) {
+    return false;
+  }
+  return ran === expected || (ran.startsWith(expected) && TRAILING_REDIRECTS.test(ran.slice(expected.length)));
+}
+
+/**
+ * Whether a shell command is the pending verification command itself
+ * (whitespace aside), with nothing chained before or after it.
+ */
+export function isExactVerifyCommand(command: string, verifyCommand: string): boolean {
+  const expected = normalizeCommand(verifyCommand);
+  return expected.length > 0 && normalizeCommand(command) === expected;
+}
+
+/**
+ * Whether a shell command runs the pending verification command.
+ * Matches whole commands, alone or chained (`cd x && npm test`), optionally
+ * with redirections (`npm test 2>&1 | tail`); `npm test:e2e` or
+ * `echo 'npm test'` are not runs of `npm test`.
+ */
+export function matchesVerifyCommand(command: string, verifyCommand: string): boolean {
+  const expected = splitCommand(verifyCommand);
+  if (expected.length === 0) {
+    return false;
+  }
+  const ran = splitCommand(command);
+  return ran.some((_, start) => expected.every((segment, offset) => matchesSegment(ran[start + offset], segment)));
+}
+
+/**
+ * Summarize verification output in a few words.
+ * Prefers a failure count ("3 tests failed"), else the last non-empty line.
+ *
+ * @param passed - null if the exit status is unknown
+ */
+export function summarizeVerifyOutput(output: string, passed: boolean | null): string {
+  const failures = output.match(/(\d+)\s+(?:tests?\s+)?(?:failed|failing|failures?)\b/i);
+  if (passed !== true && failures) {
+    const count = parseInt(failures[1], 10);
+    return `${count} ${count === 1 ? "test" : "tests"} failed`;
+  }
+
+  const lines = output.split("\n").map((line) => line.trim()).filter(Boolean);
+  const last = lines[lines.length - 1] ?? (passed === null ? "no output" : passed ? "passed" : "failed");
+  return last.length > SUMMARY_MAX_CHARS ? `${last.slice(0, SUMMARY_MAX_CHARS - 3)}...` : last;
+}
+
+/**
+ * Record an observed run of the pending verification command.
+ * Counts it as an attempt, sets passed/failed and applies the budget.
+ * The first run after a response announced an attempt is that attempt;
+ * each further run is a new one. A run without an exit status (some MCP
+ * shell tools report none) is neither passed nor failed.
+ *
+ * @returns true if this run used up the budget (newly escalated)
+ */
+export function recordShellVerifyRun(
+  state: ChainState,
+  run: { command: string; exitCode: number | null; output: string },
+  config: ShellVerifyConfig
+): boolean {
+  const passed = run.exitCode === null ? null : run.exitCode === 0;
+  const previousRun = state.shell_verify_last_run;
+  const attemptHasRun =
+    previousRun !== null && (previousRun.attempt ?? state.shell_verify_attempts) === state.shell_verify_attempts;
+  if (state.shell_verify_attempts === 0 || attemptHasRun) {
+    state.shell_verify_attempts += 1;
+  }
+  const tail = run.output.split("\n").slice(-OUTPUT_TAIL_LINES).join("\n");
+
+  const record: ShellVerifyRun = {
+    command: run.command,
+    exit_code: run.exitCode,
+    passed,
+    summary: summarizeVerifyOutput(run.output, passed),
+    output_tail: tail.slice(-OUTPUT_TAIL_MAX_CHARS),
+    timestamp: new Date().toISOString(),
+    acknowledged: false,
+    attempt: state.shell_verify_attempts,
+  };
+
+  state.shell_verify_last_run = record;
+  state.shell_verify_max_attempts = state.shell_verify_max_attempts || config.maxAttempts;
+
+  if (state.shell_verify_outcome !== "escalated" && passed !== null) {
+    state.shell_verify_outcome = passed ? "passed" : "failed";
+  }
+  return passed === false ? checkBudget(state, config, true) : false;
+}
+
+/**
+ * One-line description of the last observed verification run, labelled
+ * with the attempt it was counted as.
+ */
+export function formatVerifyRun(state: ChainState): string {
+  const run = state.shell_verify_last_run;
+  if (!run) {
+    return "";
+  }
+
+  const status =
+    run.passed === null
+      ? "finished (exit status unknown)"
+      : run.passed
+        ? "passed"
+        : `failed (exit ${run.exit_code ?? "?"})`;
+  return (
+    `[Verify] Last run of \`${run.command}\` ${status}: ${run.summary} ` +
+    `- attempt ${run.attempt ?? state.shell_verify_attempts}/${state.shell_verify_max_attempts}`
+  );
+}
+
+/**
+ * Instruction injected when a verification loop runs out of attempts.
+ */
+export function formatVerifyEscalation(state: ChainState): string {
+  return (
+    `[Verify] \`${state.pending_shell_verify}\` used all ${state.shell_verify_max_attempts} attempts. ` +
+    "Stop and ask the user how to proceed before calling prompt_engine again."
+  );
+}
@@ -0,0 +1,164 @@
+/**
+ * Chain timeline for OpenCode prompts plugin.
+ * Records step transitions, gates shown, verdicts and shell verify attempts
+ * per session, stored alongside the chain state in SessionState.timeline.
+ */
+
+import type { ChainState, TimelineEvent, TimelineEventType } from "./types.js";
+import { loadSession, updateSession } from "./session-state.js";
+
+/**
+ * Oldest events are dropped beyond this many entries per session.
+ */
+export const MAX_TIMELINE_EVENTS = 500;
+
+export interface TimelineFilter {
+  chain_id?: string;
+  type?: TimelineEventType;
+  /** Only return the most recent N matching events */
+  limit?: number;
+}
+
+/**
+ * Append an event to a session's timeline.
+ * Events are never modified once recorded.
+ */
+export function appendTimelineEvent(
+  sessionId: string,
+  event: Omit<TimelineEvent, "timestamp"> & { timestamp?: string },
+  projectDir?: string
+): TimelineEvent {
+  const entry: TimelineEvent = { ...event, timestamp: event.timestamp ?? new Date().toISOString() };
+
+  updateSession(
+    sessionId,
+    (session) => {
+      session.timeline.push(entry);
+      if (session.timeline.length > MAX_TIMELINE_EVENTS) {
+        session.timeline.splice(0, session.timeline.length - MAX_TIMELINE_EVENTS);
+      }
+    },
+    projectDir
+  );
+  return entry;
+}
+
+/**
+ * Get a session's timeline, oldest first.
+ */
+export function getSessionTimeline(
+  sessionId: string,
+  projectDir?: string,
+  filter: TimelineFilter = {}
+): TimelineEvent[] {
+  const session = loadSession(sessionId, projectDir);
+  if (!session) {
+    return [];
+  }
+
+  const events = session.timeline.filter(
+    (event) =>
+      (filter.chain_id === undefined || event.chain_id === filter.chain_id) &&
+      (filter.type === undefined || event.type === filter.type)
+  );
+  return filter.limit !== undefined ? events.slice(-filter.limit) : events;
+}
+
+/**
+ * Record the timeline events implied by a chain state update.
+ *
+ * @param previous - State of the same chain before the update (null for a new chain)
+ * @param next - State parsed from the latest prompt_engine response
+ */
+export function recordStateTransition(
+  sessionId: string,
+  previous: ChainState | null,
+  next: ChainState,
+  projectDir?: string
+): TimelineEvent[] {
+  const recorded: TimelineEvent[] = [];
+  const base = { chain_id: next.chain_id, prompt_id: next.last_prompt_id || undefined };
+
+  if (
+    next.current_step > 0 &&
+    (next.current_step !== previous?.current_step || next.total_steps !== previous?.total_steps)
+  ) {
+    recorded.push(
+      appendTimelineEvent(
+        sessionId,
+        { ...base, type: "step", step: next.current_step, total_steps: next.total_steps },
+        projectDir
+      )
+    );
+  }
+
+  if (next.pending_gate && next.pending_gate !== previous?.pending_gate) {
+    recorded.push(
+      appendTimelineEvent(sessionId, { ...base, type: "gate_shown", gate: next.pending_gate }, projectDir)
+    );
+  }
+
+  if (
+    next.pending_shell_verify &&
+    (next.pending_shell_verify !== previous?.pending_shell_verify ||
+      next.shell_verify_attempts !== previous?.shell_verify_attempts)
+  ) {
+    recorded.push(
+      appendTimelineEvent(
+        sessionId,
+        {
+          ...base,
+          type: "shell_verify",
+          command: next.pending_shell_verify,
+          attempt: next.shell_verify_attempts,
+        },
+        projectDir
+      )
+    );
+  }
+
+  return recorded;
+}
+
+/**
+ * Format one timeline event as a single line.
+ */
+function formatTimelineEvent(event: TimelineEvent): string {
+  const time = event.timestamp.slice(11, 19);
+  const chain = event.chain_id || "unnamed";
+
+  switch (event.type) {
+    case "step":
+      return `${time} ${chain} step ${event.step}/${event.total_steps}${event.prompt_id ? ` (${event.prompt_id})` : ""}`;
+    case "gate_shown":
+      return `${time} ${chain} gate shown: ${event.gate}`;
+    case "verdict":
+      return `${time} ${chain} verdict on ${event.gate}: ${event.verdict}${event.blocked ? " [blocked]" : ""}`;
+    case "shell_verify": {
+      const result = event.passed === undefined ? "" : event.passed ? " passed" : " failed";
+      return `${time} ${chain} verify \`${event.command}\` attempt ${event.attempt}${result}`;
+    }
+    case "arg_injected":
+      return `${time} ${chain} injected ${event.arg}: ${event.value}`;
+    case "arg_normalized":
+      return `${time} ${chain} normalized ${event.prompt_id}.${event.arg}: ${event.value}`;
+  }
+}
+
+/**
+ * Format a condensed timeline for compaction context.
+ *
+ * @param maxEntries - Number of most recent events to include
+ */
+export function formatTimelineSummary(events: TimelineEvent[], maxEntries = 10): string {
+  if (events.length === 0) {
+    return "";
+  }
+
+  const recent = events.slice(-maxEntries);
+  const lines = recent.map((event) => `- ${formatTimelineEvent(event)}`);
+  if (events.length > recent.length) {
+    lines.unshift(`(${events.length - recent.length} earlier events omitted)`);
+  }
+  return lines.join("\n");
+}
@@ -32,13 +32,158 @@ export interface GateInfo {
 
 export interface ChainState {
   chain_id: string;
+  /** Lifecycle status (see chain-state-machine.ts) */
+  status: ChainStatus;
   current_step: number;
   total_steps: number;
   pending_gate: string | null;
   gate_criteria: string[];
   last_prompt_id: string;
+  /** key:value arguments of the last prompt_engine command that had any */
+  last_prompt_args: Record<string, string>;
   pending_shell_verify: string | null;
   shell_verify_attempts: number;
+  /** Attempt budget for the pending shell verification */
+  shell_verify_max_attempts: number;
+  shell_verify_outcome: ShellVerifyOutcome | null;
+  /** Most recent run of the verification command seen in the agent's shell tool */
+  shell_verify_last_run: ShellVerifyRun | null;
+  /** Most recent gate verdict submitted for this chain */
+  last_gate_verdict: GateVerdict | null;
+}
+
+export type GateVerdictOutcome = "PASS" | "FAIL" | "UNKNOWN";
+
+/**
+ * Result for one gate criterion. pass is null when the verdict did not address it.
+ */
+export interface GateCriterionResult {
+  name: string;
+  pass: boolean | null;
+  note: string;
+}
+
+/**
+ * A parsed gate_verdict (see gate-verdict.ts).
+ */
+export interface GateVerdict {
+  verdict: GateVerdictOutcome;
+  reason: string;
+  criteria: GateCriterionResult[];
+  /** Verdict exactly as submitted (objects are serialized) */
+  raw: string;
+}
+
+/**
+ * Chain lifecycle status. "completed" and "abandoned" are terminal;
+ * "failed" means the shell verify budget ran out and the user must decide.
+ */
+export type ChainStatus =
+  | "idle"
+  | "running"
+  | "awaiting_gate"
+  | "verifying"
+  | "completed"
+  | "abandoned"
+  | "failed";
+
+/**
+ * A run of the pending verification command observed in a bash/shell tool call.
+ */
+export interface ShellVerifyRun {
+  command: string;
+  exit_code: number | null;
+  /** null when the tool reported no exit status */
+  passed: boolean | null;
+  /** Short description of the result, e.g. "3 tests failed" */
+  summary: string;
+  /** Last lines of the command output */
+  output_tail: string;
+  /** ISO 8601 timestamp */
+  timestamp: string;
+  /** Whether a later prompt_engine response already counted this run as an attempt */
+  acknowledged: boolean;
+  /** Attempt this run was counted as (absent in runs recorded by older versions) */
+  attempt?: number;
+}
+
+/**
+ * Result of a shell verification loop.
+ * "escalated" means the attempt budget ran out and the user must decide.
+ */
+export type ShellVerifyOutcome = "passed" | "failed" | "escalated";
+
+/**
+ * All chains tracked for one session, keyed by chain_id.
+ */
+export interface SessionState {
+  /** Persisted format version (see session-schema.ts) */
+  schema_version: number;
+  /** Key of the chain most recently started or continued */
+  active_chain_id: string | null;
+  chains: Record<string, ChainState>;
+  /** Append-only history of chain activity (see timeline.ts) */
+  timeline: TimelineEvent[];
+  /** Incremented on every file write; detects writes by other OpenCode instances */
+  revision: number;
+  /** Set when the session is compacted, until state is re-injected */
+  compaction: CompactionMarker | null;
+  /** Chains left open by a new prompt or chain_reset, most recent last */
+  abandoned: AbandonedChain[];
+}
+
+/**
+ * A chain that was abandoned and can be resumed by continuing its chain_id.
+ */
+export interface AbandonedChain {
+  /** Chain state when it was abandoned (status before abandonment) */
+  chain: ChainState;
+  /** ISO 8601 timestamp */
+  abandoned_at: string;
+  /** What abandoned it, e.g. "new prompt: >>diagnose" or "chain_reset" */
+  reason: string;
+}
+
+/**
+ * Tracks re-injection of chain state after a session compaction.
+ */
+export interface CompactionMarker {
+  /** ISO 8601 timestamp of the session.compacted event */
+  compacted_at: string;
+  /** When state was re-injected into the first model turn; null until then */
+  restored_at: string | null;
+}
+
+export type TimelineEventType =
+  | "step"
+  | "gate_shown"
+  | "verdict"
+  | "shell_verify"
+  | "arg_injected"
+  | "arg_normalized";
+
+/**
+ * One entry in a session's chain timeline.
+ */
+export interface TimelineEvent {
+  type: TimelineEventType;
+  /** ISO 8601 timestamp */
+  timestamp: string;
+  chain_id: string;
+  prompt_id?: string;
+  step?: number;
+  total_steps?: number;
+  gate?: string;
+  verdict?: string;
+  /** Whether the verdict call was blocked by gate enforcement */
+  blocked?: boolean;
+  command?: string;
+  attempt?: number;
+  /** Result of an observed shell verify run */
+  passed?: boolean;
+  /** prompt_engine argument the plugin filled in or rewrote, and the change */
+  arg?: string;
+  value?: string;
 }
 
 export interface PromptsCache {
@@ -50,3 +195,35 @@ export interface PromptsCache {
 export interface GatesCache {
   gates: Record<string, GateInfo>;
 }
+
+/**
+ * Strategy used to extract chain state from a prompt_engine response.
+ *
+ * - "structured-content": `structuredContent.chain_state` on the MCP result
+ * - "fenced-block": a ```chain-state fenced JSON block in the response text
+ * - "legacy-regex": marker scraping of the rendered markdown (fallback)
+ * - "none": nothing recognizable was found
+ */
+export type ParseStrategy = "structured-content" | "fenced-block" | "legacy-regex" | "none";
+
+/**
+ * Machine-readable chain state block emitted by claude-prompts.
+ */
+export interface ChainStateBlock {
+  protocol: string;
+  version: number;
+  chain_id?: string | null;
+  prompt_id?: string | null;
+  step?: { current: number; total: number } | null;
+  gate?: { name: string; criteria?: string[] } | null;
+  shell_verify?: { command: string; attempt?: number; max_attempts?: number } | null;
+}
+
+export interface PromptEngineParseResult {
+  state: ChainState | null;
+  strategy: ParseStrategy;
+  /** Protocol version of the structured block, or null when none was found */
+  protocol_version: number | null;
+  /** Problems encountered with a structured block before falling back */
+  warnings: string[];
+}
@@ -5,6 +5,18 @@
  */
 
 // Jest tests for hooks functionality
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from "node:fs";
+import { hostname, tmpdir } from "node:os";
+import { join } from "node:path";
 import {
   loadPromptsCache,
   getPromptById,
@@ -14,13 +26,93 @@ import {
 } from "../../src/lib/cache-manager.js";
 import {
   parsePromptEngineResponse,
+  parsePromptEngineResponseWithStrategy,
   formatChainReminder,
   loadSessionState,
   saveSessionState,
   clearSessionState,
+  listSessionChains,
+  setActiveChain,
+  removeChainState,
+  formatSessionReminder,
+  flushSessionStates,
+  loadAllSessionStates,
+  configureSessionPersistence,
+  loadSession,
+  getQuarantineDir,
 } from "../../src/lib/session-state.js";
+import { createEmptyChainState, SESSION_SCHEMA_VERSION } from "../../src/lib/session-schema.js";
+import {
+  appendTimelineEvent,
+  getSessionTimeline,
+  recordStateTransition,
+  formatTimelineSummary,
+} from "../../src/lib/timeline.js";
+import {
+  appendGateAudit,
+  readGateAudit,
+  getGateAuditPath,
+} from "../../src/lib/gate-audit.js";
+import {
+  loadPluginConfig,
+  mergePluginConfig,
+  type EnforcementMode,
+  type OpenChainPolicy,
+  type PluginConfigFile,
+} from "../../src/lib/plugin-config.js";
+import { formatCriteriaResults, parseGateVerdict } from "../../src/lib/gate-verdict.js";
+import {
+  checkGateEvidence,
+  formatEvidenceRejection,
+  resolveEvidenceRules,
+} from "../../src/lib/gate-evidence.js";
+import { findGateLock, formatGateLockDenial, isShellWrite } from "../../src/lib/gate-lock.js";
+import { resolveGateEnforcement, enforceGate } from "../../src/lib/gate-policy.js";
+import {
+  applyShellVerifyBudget,
+  formatVerifyRun,
+  isShellTool,
+  matchesVerifyCommand,
+  recordShellVerifyRun,
+  summarizeVerifyOutput,
+} from "../../src/lib/shell-verify.js";
+import { getChainStatus, resetActiveChain, listGates } from "../../src/lib/plugin-tools.js";
+import { sweepStaleSessions } from "../../src/lib/session-gc.js";
+import { withFileLock } from "../../src/lib/file-lock.js";
+import {
+  checkPromptCommandArgs,
+  formatArgumentChange,
+  formatPromptSignature,
+  normalizePromptCommand,
+  validatePromptArgs,
+} from "../../src/lib/prompt-args.js";
+import { injectContinuationChainId, isContinuationCall } from "../../src/lib/continuation.js";
+import { listAbandonedChains, takeAbandonedChain } from "../../src/lib/chain-abandon.js";
+import { completeChain, formatCompletionSummary, readChainArchive } from "../../src/lib/chain-archive.js";
+import {
+  applyChainResponse,
+  applyGateVerdict,
+  deriveChainStatus,
+  transitionChain,
+} from "../../src/lib/chain-state-machine.js";
+import {
+  buildCompactionPrompt,
+  markSessionCompacted,
+  takePostCompactionRestore,
+} from "../../src/lib/compaction.js";
+import {
+  parsePromptCommand,
+  resolvePromptCommand,
+  formatPromptInstruction,
+} from "../../src/lib/prompt-syntax.js";
+import {
+  detectWorkTypes,
+  suggestPrompts,
+  formatPromptSuggestions,
+} from "../../src/lib/prompt-suggest.js";
 import { getWorkspaceRoot, getCacheDir } from "../../src/lib/workspace.js";
-import type { ChainState } from "../../src/lib/types.js";
+import type { ChainState, PromptInfo, PromptsCache } from "../../src/lib/types.js";
+import { OpenCodePromptsPlugin } from "../../.opencode/plugin/index.js";
 
 describe("Workspace Resolution", () => {
   it("resolves workspace from project directory", () => {
@@ -85,14 +177,15 @@ describe("Session State Management", () => {
 
   it("saves and loads session state", () => {
     const testState: ChainState = {
+      ...createEmptyChainState(),
       chain_id: "chain-test#1",
+      status: "awaiting_gate",
       current_step: 2,
       total_steps: 5,
       pending_gate: "code-quality",
       gate_criteria: ["Check for errors", "Verify types"],
       last_prompt_id: "analyze",
-      pending_shell_verify: null,
-      shell_verify_attempts: 0,
+      shell_verify_max_attempts: 5,
     };
 
     saveSessionState(testSessionId, testState);
@@ -112,6 +205,1225 @@ describe("Session State Management", () => {
   });
 });
 
+describe("Session Persistence", () => {
+  let workspace: string;
+  let sessionsDir: string;
+  const previousWorkspace = process.env.MCP_WORKSPACE;
+  const sessionId = "test-session-persist-" + Date.now();
+  const state: ChainState = {
+    ...createEmptyChainState(),
+    chain_id: "chain-persist#1",
+    status: "running",
+    current_step: 2,
+    total_steps: 3,
+    last_prompt_id: "implement",
+    shell_verify_max_attempts: 5,
+  };
+
+  beforeAll(() => {
+    workspace = mkdtempSync(join(tmpdir(), "opencode-prompts-persist-"));
+    sessionsDir = join(workspace, "server", "cache", "sessions");
+    process.env.MCP_WORKSPACE = workspace;
+  });
+
+  afterAll(() => {
+    clearSessionState(sessionId);
+    configureSessionPersistence({ debounceMs: 250 });
+    process.env.MCP_WORKSPACE = previousWorkspace;
+    if (previousWorkspace === undefined) delete process.env.MCP_WORKSPACE;
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it("writes behind by default and flushes on demand", () => {
+    saveSessionState(sessionId, state);
+    expect(existsSync(join(sessionsDir, `${sessionId}.json`))).toBe(false);
+
+    expect(flushSessionStates("other-session")).toBe(0);
+    expect(flushSessionStates(sessionId)).toBe(1);
+    expect(readdirSync(sessionsDir)).toEqual([`${sessionId}.json`]);
+  });
+
+  it("writes immediately without debounce", () => {
+    configureSessionPersistence({ debounceMs: 0 });
+    saveSessionState(sessionId, { ...state, pending_gate: "code-quality" });
+    expect(flushSessionStates()).toBe(0);
+    expect(readdirSync(sessionsDir)).toEqual([`${sessionId}.json`]);
+  });
+
+  it("sweeps expired and finished sessions", () => {
+    flushSessionStates();
+    const finished = { ...state, chain_id: "chain-done#1", current_step: 3 };
+    writeFileSync(
+      join(sessionsDir, "test-session-finished.json"),
+      JSON.stringify({ active_chain_id: "chain-done#1", chains: { "chain-done#1": finished }, timeline: [] })
+    );
+
+    const preview = sweepStaleSessions({ dryRun: true });
+    expect(preview.removed).toEqual([{ session_id: "test-session-finished", reason: "finished" }]);
+    expect(existsSync(join(sessionsDir, "test-session-finished.json"))).toBe(true);
+
+    expect(sweepStaleSessions().removed).toHaveLength(1);
+    expect(existsSync(join(sessionsDir, "test-session-finished.json"))).toBe(false);
+
+    // An hour later, with a one-minute TTL, the remaining session has expired
+    const later = sweepStaleSessions({ ttlHours: 1 / 60, now: Date.now() + 60 * 60 * 1000 });
+    expect(later.removed).toEqual([{ session_id: sessionId, reason: "expired" }]);
+    expect(loadSessionState(sessionId)).toBeNull();
+  });
+
+  it("restores persisted sessions on start", () => {
+    const restoredId = "test-session-restored";
+    writeFileSync(join(sessionsDir, `${restoredId}.json`), JSON.stringify(state));
+
+    expect(loadAllSessionStates()).toEqual([restoredId]);
+    expect(loadSessionState(restoredId)?.chain_id).toBe("chain-persist#1");
+    clearSessionState(restoredId);
+  });
+
+  it("migrates files from older plugin versions", () => {
+    const legacyId = "test-session-legacy";
+    const older: Partial<ChainState> = { ...state };
+    delete older.shell_verify_max_attempts;
+    delete older.shell_verify_outcome;
+    delete older.shell_verify_last_run;
+    delete older.status;
+    delete older.last_gate_verdict;
+    writeFileSync(
+      join(sessionsDir, `${legacyId}.json`),
+      JSON.stringify({ active_chain_id: "chain-persist#1", chains: { "chain-persist#1": older } })
+    );
+
+    const session = loadSession(legacyId);
+    expect(session?.schema_version).toBe(SESSION_SCHEMA_VERSION);
+    expect(session?.timeline).toEqual([]);
+    expect(session?.chains["chain-persist#1"].shell_verify_last_run).toBeNull();
+    expect(session?.chains["chain-persist#1"].status).toBe("running");
+    expect(session?.chains["chain-persist#1"].last_gate_verdict).toBeNull();
+    clearSessionState(legacyId);
+  });
+
+  it("quarantines invalid files", () => {
+    const invalidId = "test-session-invalid";
+    writeFileSync(
+      join(sessionsDir, `${invalidId}.json`),
+      JSON.stringify({ active_chain_id: null, chains: { broken: { ...state, current_step: "two" } } })
+    );
+
+    expect(loadSession(invalidId)).toBeNull();
+    expect(existsSync(join(sessionsDir, `${invalidId}.json`))).toBe(false);
+    expect(readdirSync(getQuarantineDir())).toEqual([expect.stringMatching(/^test-session-invalid\.\d+\.json$/)]);
+  });
+
+  it("leaves files from newer plugin versions in place", () => {
+    const newerId = "test-session-newer";
+    const path = join(sessionsDir, `${newerId}.json`);
+    const content = JSON.stringify({
+      schema_version: SESSION_SCHEMA_VERSION + 1,
+      active_chain_id: null,
+      chains: {},
+      future_field: true,
+    });
+    mkdirSync(sessionsDir, { recursive: true });
+    writeFileSync(path, content);
+
+    expect(loadSession(newerId)).toBeNull();
+    saveSessionState(newerId, state);
+    expect(readFileSync(path, "utf-8")).toBe(content);
+    expect(readdirSync(getQuarantineDir())).not.toContainEqual(expect.stringMatching(/^test-session-newer\./));
+
+    rmSync(path);
+    clearSessionState(newerId);
+  });
+
+  it("merges changes written by another process", () => {
+    const sharedId = "test-session-shared";
+    const path = join(sessionsDir, `${sharedId}.json`);
+    saveSessionState(sharedId, state);
+
+    // Another instance adds a chain and bumps the revision
+    const other = JSON.parse(readFileSync(path, "utf-8"));
+    other.chains["chain-other#1"] = { ...state, chain_id: "chain-other#1" };
+    other.revision++;
+    writeFileSync(path, JSON.stringify(other));
+
+    saveSessionState(sharedId, { ...state, current_step: 3, pending_gate: "code-quality" });
+    const merged = JSON.parse(readFileSync(path, "utf-8"));
+    expect(Object.keys(merged.chains).sort()).toEqual(["chain-other#1", "chain-persist#1"]);
+    expect(merged.chains["chain-persist#1"].current_step).toBe(3);
+    expect(merged.revision).toBe(other.revision + 1);
+    expect(loadSessionState(sharedId, undefined, "chain-other#1")).not.toBeNull();
+    clearSessionState(sharedId);
+  });
+
+  it("breaks stale locks and times out on live ones", () => {
+    const path = join(sessionsDir, "locked.json");
+    const owner = { pid: process.pid, hostname: hostname(), acquired_at: Date.now() };
+    writeFileSync(`${path}.lock`, JSON.stringify(owner));
+    expect(() => withFileLock(path, () => true, { timeoutMs: 50 })).toThrow(/Timed out/);
+
+    writeFileSync(`${path}.lock`, JSON.stringify({ ...owner, acquired_at: Date.now() - 60_000 }));
+    expect(withFileLock(path, () => true)).toBe(true);
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+
+  it("breaks an unwritten lock only once it is old", () => {
+    const path = join(sessionsDir, "unwritten.json");
+    // Another instance created the lock file but has not written its owner yet
+    writeFileSync(`${path}.lock`, "");
+    expect(() => withFileLock(path, () => true, { timeoutMs: 50 })).toThrow(/Timed out/);
+
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(`${path}.lock`, old, old);
+    expect(withFileLock(path, () => true)).toBe(true);
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+});
+
+describe("Concurrent Chains", () => {
+  const sessionId = "test-session-chains-" + Date.now();
+  const baseState: ChainState = {
+    ...createEmptyChainState(),
+    status: "running",
+    current_step: 1,
+    total_steps: 3,
+    shell_verify_max_attempts: 5,
+  };
+
+  afterAll(() => clearSessionState(sessionId));
+
+  it("keeps earlier chains when a new chain starts", () => {
+    saveSessionState(sessionId, { ...baseState, chain_id: "chain-outer#1", current_step: 2 });
+    saveSessionState(sessionId, { ...baseState, chain_id: "chain-inner#1" });
+
+    expect(loadSessionState(sessionId)?.chain_id).toBe("chain-inner#1");
+    expect(loadSessionState(sessionId, undefined, "chain-outer#1")?.current_step).toBe(2);
+    expect(listSessionChains(sessionId).map((c) => c.chain_id)).toEqual([
+      "chain-inner#1",
+      "chain-outer#1",
+    ]);
+  });
+
+  it("switches and removes the active chain", () => {
+    expect(setActiveChain(sessionId, "chain-outer#1")).toBe(true);
+    expect(setActiveChain(sessionId, "chain-missing#1")).toBe(false);
+    expect(loadSessionState(sessionId)?.chain_id).toBe("chain-outer#1");
+
+    removeChainState(sessionId, "chain-outer#1");
+    expect(loadSessionState(sessionId)?.chain_id).toBe("chain-inner#1");
+  });
+
+  it("formats a reminder listing every open chain", () => {
+    const reminder = formatSessionReminder([
+      { ...baseState, chain_id: "chain-inner#1" },
+      { ...baseState, chain_id: "chain-outer#1", current_step: 2 },
+    ]);
+
+    expect(reminder).toContain("[Chains] 2 open (active: chain-inner#1)");
+    expect(reminder).toContain("chain-outer#1 - Step 2/3");
+  });
+});
+
+describe("Chain Timeline", () => {
+  const sessionId = "test-session-timeline-" + Date.now();
+  const state: ChainState = {
+    ...createEmptyChainState(),
+    chain_id: "chain-timeline#1",
+    status: "running",
+    current_step: 1,
+    total_steps: 2,
+    last_prompt_id: "analyze",
+    shell_verify_max_attempts: 5,
+  };
+
+  afterAll(() => clearSessionState(sessionId));
+
+  it("records step and gate transitions", () => {
+    recordStateTransition(sessionId, null, state);
+    const gated = { ...state, current_step: 2, pending_gate: "code-quality" };
+    recordStateTransition(sessionId, state, gated);
+    // Unchanged state records nothing
+    expect(recordStateTransition(sessionId, gated, { ...gated })).toEqual([]);
+
+    const events = getSessionTimeline(sessionId);
+    expect(events.map((e) => e.type)).toEqual(["step", "step", "gate_shown"]);
+    expect(events[0].prompt_id).toBe("analyze");
+  });
+
+  it("filters and summarizes events", () => {
+    appendTimelineEvent(sessionId, {
+      type: "verdict",
+      chain_id: "chain-timeline#1",
+      gate: "code-quality",
+      verdict: "GATE_REVIEW: PASS - types clean",
+    });
+
+    const verdicts = getSessionTimeline(sessionId, undefined, { type: "verdict" });
+    expect(verdicts).toHaveLength(1);
+
+    const summary = formatTimelineSummary(getSessionTimeline(sessionId), 2);
+    expect(summary).toContain("(2 earlier events omitted)");
+    expect(summary).toContain("verdict on code-quality: GATE_REVIEW: PASS - types clean");
+  });
+
+  it("keeps the timeline when chain state is saved", () => {
+    saveSessionState(sessionId, { ...state, current_step: 2 });
+    expect(getSessionTimeline(sessionId)).toHaveLength(4);
+  });
+});
+
+describe("Gate Audit Log", () => {
+  let workspace: string;
+  const previousWorkspace = process.env.MCP_WORKSPACE;
+  const entry = {
+    session_id: "audit-session",
+    chain_id: "chain-audit#1",
+    gate: "code-quality",
+    verdict: "PASS" as const,
+    reason: "types clean",
+    criteria: ["No type errors"],
+    blocked: false,
+    raw: "GATE_REVIEW: PASS - types clean",
+  };
+
+  beforeAll(() => {
+    workspace = mkdtempSync(join(tmpdir(), "opencode-prompts-audit-"));
+    process.env.MCP_WORKSPACE = workspace;
+  });
+
+  afterAll(() => {
+    process.env.MCP_WORKSPACE = previousWorkspace;
+    if (previousWorkspace === undefined) delete process.env.MCP_WORKSPACE;
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it("appends and filters entries", () => {
+    appendGateAudit(entry);
+    appendGateAudit({ ...entry, gate: "security", verdict: "FAIL", blocked: true });
+
+    expect(getGateAuditPath()).toBe(join(workspace, "runtime-state", "gate-audit.jsonl"));
+    expect(readGateAudit()).toHaveLength(2);
+    expect(readGateAudit({ gate: "security" })[0].blocked).toBe(true);
+  });
+
+  it("rotates by size and reads rotated files", () => {
+    const options = { maxBytes: 400, maxFiles: 2 };
+    for (let i = 0; i < 6; i++) {
+      appendGateAudit({ ...entry, reason: `run ${i}` }, undefined, options);
+    }
+
+    expect(existsSync(join(workspace, "runtime-state", "gate-audit.1.jsonl"))).toBe(true);
+    expect(existsSync(join(workspace, "runtime-state", "gate-audit.3.jsonl"))).toBe(false);
+
+    const all = readGateAudit({ includeRotated: true }, undefined, options);
+    expect(all.length).toBeGreaterThan(readGateAudit().length);
+    expect(all[all.length - 1].reason).toBe("run 5");
+  });
+});
+
+describe("Gate Verdict Parsing", () => {
+  const criteria = ["Tests cover edge cases", "No console.log left behind"];
+
+  it("parses GATE_REVIEW strings with the verdict first or last", () => {
+    expect(parseGateVerdict("GATE_REVIEW: FAIL - missing tests")).toEqual({
+      verdict: "FAIL",
+      reason: "missing tests",
+      criteria: [],
+      raw: "GATE_REVIEW: FAIL - missing tests",
+    });
+    expect(parseGateVerdict("no failures found - PASS")?.verdict).toBe("PASS");
+    expect(parseGateVerdict("looks fine")?.verdict).toBe("UNKNOWN");
+    expect(parseGateVerdict("GATE_REVIEW: FAILED - tests broken")?.verdict).toBe("FAIL");
+    expect(parseGateVerdict("GATE_REVIEW: pass - clean")?.verdict).toBe("PASS");
+    expect(parseGateVerdict("PASSED: all green")?.verdict).toBe("PASS");
+    expect(parseGateVerdict("tests fail")?.verdict).toBe("UNKNOWN");
+    expect(parseGateVerdict("pass the buck")?.verdict).toBe("UNKNOWN");
+    expect(parseGateVerdict("Checked all criteria.\nGATE_REVIEW: PASS - all good")).toMatchObject({
+      verdict: "PASS",
+      reason: "all good",
+    });
+    expect(parseGateVerdict("")).toBeNull();
+    expect(parseGateVerdict(undefined)).toBeNull();
+  });
+
+  it("parses JSON verdicts and lines criteria up with the gate", () => {
+    const verdict = parseGateVerdict(
+      JSON.stringify({
+        verdict: "FAIL",
+        reason: "debug logging remains",
+        criteria: [
+          { name: "no console.log", pass: false, note: "src/a.ts:12" },
+          { name: "Tests cover edge cases", pass: true },
+        ],
+      }),
+      criteria
+    );
+
+    expect(verdict?.verdict).toBe("FAIL");
+    expect(verdict?.reason).toBe("debug logging remains");
+    expect(verdict?.criteria).toEqual([
+      { name: "Tests cover edge cases", pass: true, note: "" },
+      { name: "No console.log left behind", pass: false, note: "src/a.ts:12" },
+    ]);
+    expect(formatCriteriaResults(verdict?.criteria ?? [])).toBe(
+      "1/2 criteria passed (failed: No console.log left behind)"
+    );
+  });
+
+  it("derives the verdict from criteria and marks unaddressed ones", () => {
+    const verdict = parseGateVerdict({ criteria: [{ name: "tests cover edge cases", pass: "PASS" }] }, criteria);
+
+    expect(verdict?.verdict).toBe("PASS");
+    expect(verdict?.criteria[1]).toEqual({ name: "No console.log left behind", pass: null, note: "" });
+    expect(formatCriteriaResults(verdict?.criteria ?? [])).toBe("1/2 criteria passed (1 not addressed)");
+  });
+});
+
+describe("Gate Evidence Rules", () => {
+  const gated: ChainState = {
+    ...createEmptyChainState(),
+    chain_id: "chain-review#2",
+    status: "awaiting_gate",
+    current_step: 2,
+    total_steps: 4,
+    pending_gate: "code-quality",
+    gate_criteria: ["Tests cover edge cases", "No console.log left behind"],
+    last_prompt_id: "review",
+    shell_verify_max_attempts: 5,
+  };
+  const strict = { minReasonLength: 20, requireCriteria: true, requireVerification: true };
+
+  it("lists missing evidence for a bare PASS", () => {
+    const verdict = parseGateVerdict("GATE_REVIEW: PASS", gated.gate_criteria)!;
+    const missing = checkGateEvidence(verdict, strict, gated);
+
+    expect(missing).toEqual([
+      "reason of at least 20 characters (got 0)",
+      'reference to criterion "Tests cover edge cases"',
+      'reference to criterion "No console.log left behind"',
+      "mention of verification output (e.g. test results or exit code)",
+    ]);
+    expect(formatEvidenceRejection("code-quality", missing)).toContain(
+      'Gate "code-quality" verdict rejected: missing evidence:\n- reason of at least 20 characters (got 0)'
+    );
+  });
+
+  it("accepts verdicts that cover criteria and verification", () => {
+    const text = parseGateVerdict(
+      "GATE_REVIEW: PASS - edge cases are covered by tests, no console.log left; npm test exit code 0",
+      gated.gate_criteria
+    )!;
+    expect(checkGateEvidence(text, strict, gated)).toEqual([]);
+
+    const json = parseGateVerdict({
+      verdict: "PASS",
+      reason: "all 42 tests passed after the fix",
+      criteria: [
+        { name: "Tests cover edge cases", pass: true },
+        { name: "No console.log left behind", pass: true },
+      ],
+    }, gated.gate_criteria)!;
+    expect(checkGateEvidence(json, strict, gated)).toEqual([]);
+  });
+
+  it("checks unreadable verdicts and requires actual verification results", () => {
+    const verification = { minReasonLength: 20, requireCriteria: false, requireVerification: true };
+
+    expect(checkGateEvidence(parseGateVerdict("GATE_REVIEW: PASSED")!, verification, gated)).toHaveLength(2);
+    expect(checkGateEvidence(parseGateVerdict("LGTM ship it")!, verification, gated)).toHaveLength(2);
+    expect(
+      checkGateEvidence(parseGateVerdict("GATE_REVIEW: PASS - I ran through it and it is fine ok")!, verification, gated)
+    ).toEqual(["mention of verification output (e.g. test results or exit code)"]);
+    expect(
+      checkGateEvidence(parseGateVerdict("GATE_REVIEW: PASS - npm test exited with code 0, lint clean")!, verification, gated)
+    ).toEqual([]);
+  });
+
+  it("accepts a run summary only when it is a result", () => {
+    const verification = { minReasonLength: 0, requireCriteria: false, requireVerification: true };
+    const lastRun = {
+      command: "npm test",
+      exit_code: 0,
+      passed: true,
+      summary: "passed",
+      output_tail: "",
+      timestamp: new Date().toISOString(),
+      acknowledged: true,
+    };
+    const verdict = parseGateVerdict("GATE_REVIEW: PASS - all criteria passed")!;
+
+    expect(checkGateEvidence(verdict, verification, { ...gated, shell_verify_last_run: lastRun })).toEqual([
+      "mention of verification output (e.g. test results or exit code)",
+    ]);
+  });
+
+  it("counts criterion notes as part of the reason", () => {
+    const verdict = parseGateVerdict({
+      verdict: "PASS",
+      reason: "looks good overall",
+      criteria: [{ name: "Tests cover edge cases", pass: true, note: "no console.log left behind either" }],
+    }, gated.gate_criteria)!;
+
+    expect(checkGateEvidence(verdict, { ...strict, minReasonLength: 0, requireVerification: false }, gated)).toEqual(
+      []
+    );
+  });
+
+  it("skips FAIL verdicts and applies per-gate rules", () => {
+    expect(checkGateEvidence(parseGateVerdict("FAIL")!, strict, gated)).toEqual([]);
+
+    const { gateEvidence } = mergePluginConfig({
+      gateEvidence: { minReasonLength: 10, gates: { security: { requireVerification: true } } },
+    });
+    expect(resolveEvidenceRules(gateEvidence, "security")).toEqual({
+      minReasonLength: 10,
+      requireCriteria: false,
+      requireVerification: true,
+    });
+    expect(resolveEvidenceRules(gateEvidence, "code-quality").requireVerification).toBe(false);
+  });
+});
+
+describe("Gate Enforcement Policy", () => {
+  it("loads project config over defaults", () => {
+    const projectDir = mkdtempSync(join(tmpdir(), "opencode-prompts-config-"));
+    mkdirSync(join(projectDir, ".opencode"));
+    writeFileSync(
+      join(projectDir, ".opencode", "opencode-prompts.jsonc"),
+      '{\n  // exploratory sessions\n  "gatePolicy": { "mode": "warn" }\n}'
+    );
+
+    try {
+      const config = loadPluginConfig(projectDir);
+      expect(config.gatePolicy.mode).toBe("warn");
+      expect(config.gatePolicy.gates).toEqual({});
+    } finally {
+      rmSync(projectDir, { recursive: true, force: true });
+    }
+  });
+
+  it("resolves gate over prompt over global mode", () => {
+    const { gatePolicy } = mergePluginConfig({
+      gatePolicy: {
+        mode: "strict",
+        gates: { "code-quality": "off" },
+        prompts: { explore: "warn" },
+      },
+    });
+
+    expect(resolveGateEnforcement(gatePolicy, { gate: "code-quality", promptId: "explore" })).toBe("off");
+    expect(resolveGateEnforcement(gatePolicy, { gate: "security", promptId: "explore" })).toBe("warn");
+    expect(resolveGateEnforcement(gatePolicy, { gate: "security", promptId: "review" })).toBe("strict");
+  });
+
+  it("replaces invalid modes with the default", () => {
+    const config = mergePluginConfig({
+      gatePolicy: {
+        mode: "strcit" as EnforcementMode,
+        gates: { "code-quality": "of" as EnforcementMode, security: "warn" },
+      },
+      openChains: { policy: "blok" as OpenChainPolicy },
+    });
+
+    expect(config.gatePolicy.mode).toBe("strict");
+    expect(config.gatePolicy.gates).toEqual({ security: "warn" });
+    expect(config.openChains.policy).toBe("warn");
+    expect(resolveGateEnforcement(config.gatePolicy, { gate: "code-quality" })).toBe("strict");
+  });
+
+  it("throws, warns or ignores per mode", () => {
+    expect(() => enforceGate("strict", "Gate FAIL")).toThrow("Gate FAIL");
+    expect(enforceGate("warn", "Gate FAIL")).toBe("[Gate Warning] Gate FAIL");
+    expect(enforceGate("off", "Gate FAIL")).toBeNull();
+  });
+});
+
+describe("Gate Lock", () => {
+  const config = { ...mergePluginConfig().gateLock, enabled: true };
+  const gated: ChainState = {
+    ...createEmptyChainState(),
+    chain_id: "chain-review#2",
+    status: "awaiting_gate",
+    current_step: 2,
+    total_steps: 4,
+    pending_gate: "code-quality",
+    last_prompt_id: "review",
+    shell_verify_max_attempts: 5,
+  };
+
+  it("denies file-modifying tools while a gate is pending", () => {
+    expect(findGateLock("edit", { filePath: "src/a.ts" }, [gated], config)).toBe(gated);
+    expect(findGateLock("fs_write", {}, [gated], config)).toBe(gated);
+    expect(findGateLock("bash", { command: "echo hi > notes.txt" }, [gated], config)).toBe(gated);
+    expect(findGateLock("bash", { command: "sed -i 's/a/b/' src/a.ts" }, [gated], config)).toBe(gated);
+
+    expect(formatGateLockDenial("edit", gated)).toBe(
+      '[Gate] edit is blocked while gate "code-quality" awaits review on chain-review#2. ' +
+        'Submit GATE_REVIEW: PASS|FAIL - <reason> with prompt_engine(chain_id:"chain-review#2", gate_verdict:...) first.'
+    );
+  });
+
+  it("allows read-only tools and shell commands", () => {
+    expect(findGateLock("read", { filePath: "src/a.ts" }, [gated], config)).toBeNull();
+    expect(findGateLock("bash", { command: "npm test 2>&1 | tail" }, [gated], config)).toBeNull();
+    expect(findGateLock("bash", { command: "git diff > /dev/null" }, [gated], config)).toBeNull();
+    expect(findGateLock("edit", {}, [gated], { ...config, allowTools: ["edit"] })).toBeNull();
+  });
+
+  it("allows the pending verify command only on its own", () => {
+    const verifying = { ...gated, pending_shell_verify: "npm test > results.txt" };
+    expect(findGateLock("bash", { command: "npm  test > results.txt" }, [verifying], config)).toBeNull();
+    expect(findGateLock("bash", { command: "rm -rf src && npm test > results.txt" }, [verifying], config)).toBe(
+      verifying
+    );
+    expect(findGateLock("bash", { command: "echo x > a.ts; npm test > results.txt" }, [verifying], config)).toBe(
+      verifying
+    );
+  });
+
+  it("allows everything when disabled or no gate is pending", () => {
+    expect(findGateLock("edit", {}, [gated], { ...config, enabled: false })).toBeNull();
+    expect(findGateLock("edit", {}, [{ ...gated, pending_gate: null }], config)).toBeNull();
+  });
+
+  it("matches shell commands against write patterns", () => {
+    expect(isShellWrite("rm -rf dist", config.bashWritePatterns)).toBe(true);
+    expect(isShellWrite("git commit -m wip", config.bashWritePatterns)).toBe(true);
+    expect(isShellWrite("git status", config.bashWritePatterns)).toBe(false);
+    expect(isShellWrite("ls", ["(unclosed"])).toBe(false);
+  });
+});
+
+describe("Shell Verify Budget", () => {
+  const config = { maxAttempts: 2, escalation: "block" as const };
+  const verifying: ChainState = {
+    ...createEmptyChainState(),
+    chain_id: "chain-verify#1",
+    status: "verifying",
+    current_step: 1,
+    total_steps: 1,
+    last_prompt_id: "implement",
+    pending_shell_verify: "npm test",
+  };
+
+  it("counts attempts itself and escalates past the budget", () => {
+    const first = { ...verifying };
+    expect(applyShellVerifyBudget(null, first, config)).toBe(false);
+    expect(first.shell_verify_attempts).toBe(1);
+    expect(first.shell_verify_max_attempts).toBe(2);
+
+    const second = { ...verifying };
+    expect(applyShellVerifyBudget(first, second, config)).toBe(false);
+    expect(second.shell_verify_attempts).toBe(2);
+
+    const third = { ...verifying };
+    expect(applyShellVerifyBudget(second, third, config)).toBe(true);
+    expect(third.shell_verify_outcome).toBe("escalated");
+
+    // Escalation sticks without re-triggering
+    const fourth = { ...verifying };
+    expect(applyShellVerifyBudget(third, fourth, config)).toBe(false);
+    expect(fourth.shell_verify_outcome).toBe("escalated");
+  });
+
+  it("prefers the budget stated in the response", () => {
+    const next = { ...verifying, shell_verify_max_attempts: 3 };
+    applyShellVerifyBudget(null, next, config);
+    expect(next.shell_verify_max_attempts).toBe(3);
+  });
+
+  it("restarts the count for a new command", () => {
+    const previous = { ...verifying, shell_verify_attempts: 2, shell_verify_max_attempts: 2 };
+    const next = { ...verifying, pending_shell_verify: "npm run lint" };
+    expect(applyShellVerifyBudget(previous, next, config)).toBe(false);
+    expect(next.shell_verify_attempts).toBe(1);
+  });
+
+  it("records observed bash runs as attempts", () => {
+    const state = { ...verifying, shell_verify_attempts: 1, shell_verify_max_attempts: 2 };
+    const escalated = recordShellVerifyRun(
+      state,
+      { command: "npm test", exitCode: 1, output: "PASS a.test.ts\nTests: 3 failed, 10 passed" },
+      config
+    );
+
+    // The announced attempt 1 is this run
+    expect(escalated).toBe(false);
+    expect(state.shell_verify_attempts).toBe(1);
+    expect(state.shell_verify_outcome).toBe("failed");
+    expect(state.shell_verify_last_run?.summary).toBe("3 tests failed");
+
+    // The prompt_engine response validating the same run is not a new attempt
+    const next = { ...verifying };
+    applyShellVerifyBudget(state, next, config);
+    expect(next.shell_verify_attempts).toBe(1);
+    expect(next.shell_verify_last_run?.acknowledged).toBe(true);
+  });
+
+  it("counts a response and its bash runs in sequence once each", () => {
+    const budget = { ...config, maxAttempts: 5 };
+    const failing = { command: "npm test", exitCode: 1, output: "Tests: 1 failed" };
+
+    // The response announcing verification is attempt 1
+    let state: ChainState = { ...verifying };
+    applyShellVerifyBudget(null, state, budget);
+    expect(state.shell_verify_attempts).toBe(1);
+
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      expect(recordShellVerifyRun(state, failing, budget)).toBe(false);
+      expect(state.shell_verify_attempts).toBe(attempt);
+      expect(formatVerifyRun(state)).toContain(`attempt ${attempt}/5`);
+
+      // Every other run is followed by a response validating it
+      if (attempt % 2 === 0) {
+        const next = { ...verifying };
+        applyShellVerifyBudget(state, next, budget);
+        expect(next.shell_verify_attempts).toBe(attempt);
+        state = next;
+      }
+    }
+
+    // The fifth failing run uses up the budget
+    expect(recordShellVerifyRun(state, failing, budget)).toBe(true);
+    expect(state.shell_verify_attempts).toBe(5);
+    expect(state.shell_verify_outcome).toBe("escalated");
+  });
+
+  it("leaves pass/fail unset for runs without an exit status", () => {
+    const state = { ...verifying, shell_verify_attempts: 1, shell_verify_max_attempts: 1 };
+    const escalated = recordShellVerifyRun(state, { command: "npm test", exitCode: null, output: "all good" }, config);
+
+    expect(escalated).toBe(false);
+    expect(state.shell_verify_outcome).toBeNull();
+    expect(state.shell_verify_last_run?.passed).toBeNull();
+    expect(formatVerifyRun(state)).toBe(
+      "[Verify] Last run of `npm test` finished (exit status unknown): all good - attempt 1/1"
+    );
+  });
+
+  it("labels the last run with its own attempt", () => {
+    const state = { ...verifying, shell_verify_attempts: 1, shell_verify_max_attempts: 2 };
+    recordShellVerifyRun(state, { command: "npm test", exitCode: 1, output: "Tests: 1 failed" }, config);
+
+    // A response asking to verify again announces attempt 2
+    const next = { ...verifying, shell_verify_attempts: 2 };
+    applyShellVerifyBudget(state, next, config);
+    expect(next.shell_verify_attempts).toBe(2);
+    expect(formatVerifyRun(next)).toContain("failed (exit 1): 1 test failed - attempt 1/2");
+  });
+
+  it("matches shell tools and verify commands", () => {
+    expect(isShellTool("bash")).toBe(true);
+    expect(isShellTool("mcp_shell")).toBe(true);
+    expect(isShellTool("prompt_engine")).toBe(false);
+    expect(matchesVerifyCommand("cd app &&  npm test", "npm test")).toBe(true);
+    expect(matchesVerifyCommand("npm run build; npm test 2>&1 | tail -5", "npm test")).toBe(true);
+    expect(matchesVerifyCommand("npm test 2>&1 | tail -5", "npm test 2>&1 | tail -5")).toBe(true);
+    expect(matchesVerifyCommand("npm run lint", "npm test")).toBe(false);
+    expect(matchesVerifyCommand("npm test:e2e", "npm test")).toBe(false);
+    expect(matchesVerifyCommand("npm testing", "npm test")).toBe(false);
+    expect(matchesVerifyCommand("echo 'npm test'", "npm test")).toBe(false);
+    expect(summarizeVerifyOutput("all good\n", true)).toBe("all good");
+  });
+
+  it("does not escalate when escalation is off", () => {
+    const previous = { ...verifying, shell_verify_attempts: 2, shell_verify_max_attempts: 2 };
+    const next = { ...verifying };
+    expect(applyShellVerifyBudget(previous, next, { ...config, escalation: "off" })).toBe(false);
+    expect(next.shell_verify_outcome).toBeNull();
+  });
+});
+
+describe("Chain State Machine", () => {
+  const base: ChainState = {
+    ...createEmptyChainState(),
+    chain_id: "chain-fsm#1",
+    total_steps: 3,
+    last_prompt_id: "implement",
+    shell_verify_max_attempts: 5,
+  };
+
+  it("derives status from step, gate and verify fields", () => {
+    expect(deriveChainStatus(base)).toBe("idle");
+    expect(deriveChainStatus({ ...base, current_step: 1 })).toBe("running");
+    expect(deriveChainStatus({ ...base, current_step: 1, pending_gate: "code-quality" })).toBe("awaiting_gate");
+    expect(deriveChainStatus({ ...base, pending_shell_verify: "npm test" })).toBe("verifying");
+    expect(
+      deriveChainStatus({ ...base, pending_shell_verify: "npm test", shell_verify_outcome: "escalated" })
+    ).toBe("failed");
+    expect(deriveChainStatus({ ...base, current_step: 3 })).toBe("completed");
+  });
+
+  it("applies responses and rejects transitions out of terminal statuses", () => {
+    const next = { ...base, current_step: 2, pending_gate: "code-quality" };
+    expect(applyChainResponse({ ...base, status: "running", current_step: 1 }, next)).toBe(true);
+    expect(next.status).toBe("awaiting_gate");
+
+    const restarted = { ...base, current_step: 1 };
+    expect(applyChainResponse({ ...base, status: "completed", current_step: 3 }, restarted)).toBe(false);
+    expect(restarted.status).toBe("completed");
+    expect(transitionChain({ ...base, status: "abandoned" }, "running", "test")).toBe(false);
+  });
+
+  it("clears the gate on PASS and keeps it on FAIL", () => {
+    const gated: ChainState = { ...base, status: "awaiting_gate", current_step: 2, pending_gate: "code-quality" };
+    expect(applyGateVerdict(gated, false)?.pending_gate).toBe("code-quality");
+
+    const passed = applyGateVerdict(gated, true);
+    expect(passed?.pending_gate).toBeNull();
+    expect(passed?.status).toBe("running");
+    expect(applyGateVerdict({ ...gated, current_step: 3 }, true)?.status).toBe("completed");
+  });
+});
+
+describe("Chain Completion", () => {
+  let workspace: string;
+  const previousWorkspace = process.env.MCP_WORKSPACE;
+  const sessionId = "test-session-complete-" + Date.now();
+  const state: ChainState = {
+    ...createEmptyChainState(),
+    chain_id: "chain-done#1",
+    status: "completed",
+    current_step: 4,
+    total_steps: 4,
+    last_prompt_id: "review",
+    shell_verify_max_attempts: 5,
+  };
+
+  beforeAll(() => {
+    workspace = mkdtempSync(join(tmpdir(), "opencode-prompts-complete-"));
+    process.env.MCP_WORKSPACE = workspace;
+  });
+
+  afterAll(() => {
+    clearSessionState(sessionId);
+    process.env.MCP_WORKSPACE = previousWorkspace;
+    if (previousWorkspace === undefined) delete process.env.MCP_WORKSPACE;
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it("summarizes, archives and clears a completed chain", () => {
+    const chain_id = state.chain_id;
+    const started = new Date(Date.now() - 125_000).toISOString();
+    appendTimelineEvent(sessionId, { type: "step", chain_id, step: 1, total_steps: 4, timestamp: started });
+    appendTimelineEvent(sessionId, { type: "verdict", chain_id, gate: "code-quality", verdict: "GATE_REVIEW: FAIL - types" });
+    appendTimelineEvent(sessionId, {
+      type: "verdict",
+      chain_id,
+      gate: "code-quality",
+      verdict: "GATE_REVIEW: PASS",
+      blocked: true,
+    });
+    appendTimelineEvent(sessionId, { type: "verdict", chain_id, gate: "code-quality", verdict: "GATE_REVIEW: PASS - fixed" });
+    appendTimelineEvent(sessionId, { type: "shell_verify", chain_id, command: "npm test", attempt: 1 });
+    appendTimelineEvent(sessionId, { type: "shell_verify", chain_id, command: "npm test", attempt: 2 });
+    appendTimelineEvent(sessionId, { type: "shell_verify", chain_id, command: "npm test", attempt: 2 });
+    saveSessionState(sessionId, state);
+
+    const summary = completeChain(sessionId, state);
+    expect(summary).toMatchObject({ total_steps: 4, gates_passed: 1, gates_failed: 1, verify_attempts: 2 });
+    expect(formatCompletionSummary(summary)).toMatch(
+      /^\[Chain\] chain-done#1 complete: 4 steps \| gates: 1 passed, 1 failed \| verify attempts: 2 \| 2m \d+s$/
+    );
+
+    const archive = readChainArchive();
+    expect(archive).toHaveLength(1);
+    expect(archive[0].final_state.chain_id).toBe("chain-done#1");
+    expect(loadSessionState(sessionId, undefined, "chain-done#1")).toBeNull();
+  });
+});
+
+describe("Continuation Calls", () => {
+  const active: ChainState = {
+    ...createEmptyChainState(),
+    chain_id: "chain-review#3",
+    status: "awaiting_gate",
+    current_step: 2,
+    total_steps: 4,
+    pending_gate: "code-quality",
+    last_prompt_id: "review",
+    shell_verify_max_attempts: 5,
+  };
+
+  it("injects the active chain_id into continuations that omit it", () => {
+    const args: Record<string, unknown> = { gate_verdict: "GATE_REVIEW: PASS - clean" };
+    expect(injectContinuationChainId(args, active)).toBe("chain-review#3");
+    expect(args.chain_id).toBe("chain-review#3");
+  });
+
+  it("leaves new commands and explicit chain_ids alone", () => {
+    const command: Record<string, unknown> = { command: ">>diagnose" };
+    expect(injectContinuationChainId(command, active)).toBeNull();
+    expect(command.chain_id).toBeUndefined();
+
+    const explicit: Record<string, unknown> = { chain_id: "chain-other#1" };
+    expect(injectContinuationChainId(explicit, active)).toBeNull();
+    expect(explicit.chain_id).toBe("chain-other#1");
+
+    expect(injectContinuationChainId({}, null)).toBeNull();
+    expect(isContinuationCall({ command: "  " })).toBe(true);
+  });
+
+  it("formats injection notes in the timeline", () => {
+    const summary = formatTimelineSummary([
+      {
+        type: "arg_injected",
+        timestamp: "2026-01-01T10:00:00.000Z",
+        chain_id: "chain-review#3",
+        arg: "chain_id",
+        value: "chain-review#3",
+      },
+    ]);
+    expect(summary).toContain("chain-review#3 injected chain_id: chain-review#3");
+  });
+});
+
+describe("Plugin Tools", () => {
+  let workspace: string;
+  const previousWorkspace = process.env.MCP_WORKSPACE;
+  const sessionId = "test-session-tools-" + Date.now();
+
+  beforeAll(() => {
+    workspace = mkdtempSync(join(tmpdir(), "opencode-prompts-tools-"));
+    mkdirSync(join(workspace, "server", "cache"), { recursive: true });
+    writeFileSync(
+      join(workspace, "server", "cache", "gates.cache.json"),
+      JSON.stringify({
+        gates: {
+          "code-quality": {
+            id: "code-quality",
+            name: "Code Quality",
+            type: "validation",
+            description: "Checks code standards",
+            triggers: ["code"],
+          },
+        },
+      })
+    );
+    process.env.MCP_WORKSPACE = workspace;
+  });
+
+  afterAll(() => {
+    clearSessionState(sessionId);
+    process.env.MCP_WORKSPACE = previousWorkspace;
+    if (previousWorkspace === undefined) delete process.env.MCP_WORKSPACE;
+    rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it("reports status, lists gates and resets the active chain", () => {
+    expect(getChainStatus(sessionId)).toContain("No active chain");
+
+    saveSessionState(sessionId, {
+      ...createEmptyChainState(),
+      chain_id: "chain-tools#1",
+      status: "awaiting_gate",
+      current_step: 1,
+      total_steps: 2,
+      pending_gate: "code-quality",
+      gate_criteria: ["No lint errors"],
+      last_prompt_id: "review",
+      shell_verify_max_attempts: 5,
+    });
+
+    const status = getChainStatus(sessionId);
+    expect(status).toContain("chain-tools#1 - Step 1/2");
+    expect(status).toContain("- No lint errors");
+
+    expect(listGates(sessionId)).toContain("- code-quality (pending): Code Quality (validation)");
+
+    expect(resetActiveChain(sessionId)).toContain("Chain chain-tools#1 abandoned");
+    expect(loadSessionState(sessionId)).toBeNull();
+  });
+
+  it("records abandoned chains for resuming", () => {
+    expect(getChainStatus(sessionId)).toContain(
+      `Abandoned (resumable):\n- chain-tools#1 at step 1/2 (chain_reset, `
+    );
+    expect(listAbandonedChains(sessionId)).toHaveLength(1);
+
+    const resumed = takeAbandonedChain(sessionId, "chain-tools#1");
+    expect(resumed?.status).toBe("awaiting_gate");
+    expect(resumed?.pending_gate).toBe("code-quality");
+    expect(listAbandonedChains(sessionId)).toEqual([]);
+    expect(takeAbandonedChain(sessionId, "chain-tools#1")).toBeNull();
+  });
+});
+
+describe("Compaction", () => {
+  const sessionId = "test-session-compaction-" + Date.now();
+  const state: ChainState = {
+    ...createEmptyChainState(),
+    chain_id: "chain-review#1",
+    status: "awaiting_gate",
+    current_step: 2,
+    total_steps: 4,
+    pending_gate: "code-quality",
+    gate_criteria: ["No type errors", "Tests cover new paths"],
+    last_prompt_id: "review",
+    last_prompt_args: { scope: "auth module" },
+    shell_verify_max_attempts: 5,
+  };
+
+  afterAll(() => {
+    clearSessionState(sessionId);
+  });
+
+  it("re-injects full state once after compaction", () => {
+    saveSessionState(sessionId, state, undefined, false);
+    expect(takePostCompactionRestore(sessionId)).toBeNull();
+
+    markSessionCompacted(sessionId);
+    const restore = takePostCompactionRestore(sessionId);
+    expect(restore).toContain("[Chain] chain-review#1 - Step 2/4");
+    expect(restore).toContain("- Tests cover new paths");
+    expect(restore).toContain('Last prompt: >>review scope:"auth module"');
+    expect(loadSession(sessionId)?.compaction?.restored_at).not.toBeNull();
+
+    expect(takePostCompactionRestore(sessionId)).toBeNull();
+  });
+
+  it("extends or replaces the compaction prompt from a template", () => {
+    expect(buildCompactionPrompt({ mode: "off", template: null }, [state])).toEqual({});
+    expect(buildCompactionPrompt({ mode: "extend", template: null }, [])).toEqual({});
+
+    const extended = buildCompactionPrompt({ mode: "extend", template: null }, [state]);
+    expect(extended.context).toContain("Chain: chain-review#1 (step 2/4)");
+    expect(extended.context).toContain("- No type errors");
+    expect(extended.prompt).toBeUndefined();
+
+    const replaced = buildCompactionPrompt(
+      { mode: "replace", template: "Keep {{chain_id}} at {{gate}}; verify {{shell_verify}} {{unknown}}" },
+      [state]
+    );
+    expect(replaced.prompt).toBe("Keep chain-review#1 at code-quality; verify none {{unknown}}");
+  });
+});
+
+describe("Prompt Syntax Detection", () => {
+  const prompt = (id: string, isChain = false): PromptInfo => ({
+    id,
+    name: id,
+    category: "analysis",
+    description: "",
+    is_chain: isChain,
+    chain_steps: isChain ? 4 : 0,
+    arguments: [],
+    gates: [],
+    keywords: [],
+  });
+  const cache: PromptsCache = {
+    prompts: { diagnose: prompt("diagnose"), review_chain: prompt("review_chain", true) },
+  };
+
+  it("parses prompt ids, arguments and free text", () => {
+    const parsed = parsePromptCommand('Please run >>diagnose scope:"auth module" depth:2 the login bug');
+
+    expect(parsed?.command).toBe('>>diagnose scope:"auth module" depth:2 the login bug');
+    expect(parsed?.steps).toEqual([
+      { prompt_id: "diagnose", args: { scope: "auth module", depth: "2" }, text: "the login bug" },
+    ]);
+  });
+
+  it("captures the command through the end of the message", () => {
+    const parsed = parsePromptCommand('please >>diagnose scope:"login"\nit fails with 500')!;
+
+    expect(parsed.command).toBe('>>diagnose scope:"login"\nit fails with 500');
+    expect(parsed.steps[0].text).toBe("it fails with 500");
+    expect(formatPromptInstruction(parsed, [cache.prompts.diagnose])).toContain(
+      'command: ">>diagnose scope:\\"login\\"\\nit fails with 500"'
+    );
+  });
+
+  it("keeps URLs and file positions in free text", () => {
+    const parsed = parsePromptCommand(">>diagnose scope:auth check https://example.com/a:b near file.ts:12")!;
+
+    expect(parsed.steps[0].args).toEqual({ scope: "auth" });
+    expect(parsed.steps[0].text).toBe("check https://example.com/a:b near file.ts:12");
+  });
+
+  it("splits chain operators into steps", () => {
+    const parsed = parsePromptCommand(">>diagnose scope:'api' --> >>review_chain");
+    expect(parsed?.steps.map((s) => s.prompt_id)).toEqual(["diagnose", "review_chain"]);
+    expect(parsed?.steps[0].args).toEqual({ scope: "api" });
+  });
+
+  it("ignores messages without a command", () => {
+    expect(parsePromptCommand("shift values with a >> b")).toBeNull();
+    expect(parsePromptCommand("no command here")).toBeNull();
+  });
+
+  it("resolves steps against the cache and formats the instruction", () => {
+    const parsed = parsePromptCommand(">>diagnose --> >>review_chain --> >>unknown")!;
+    const resolved = resolvePromptCommand(parsed, cache);
+    expect(resolved.map(([, info]) => info?.id ?? null)).toEqual(["diagnose", "review_chain", null]);
+
+    const known = parsePromptCommand(">>diagnose --> >>review_chain")!;
+    const instruction = formatPromptInstruction(known, [cache.prompts.diagnose, cache.prompts.review_chain]);
+    expect(instruction).toContain("diagnose --> review_chain (chain, 4 steps)");
+    expect(instruction).toContain('command: ">>diagnose --> >>review_chain"');
+  });
+});
+
+describe("Prompt Argument Validation", () => {
+  const diagnose: PromptInfo = {
+    id: "diagnose",
+    name: "Diagnose",
+    category: "debugging",
+    description: "",
+    is_chain: false,
+    chain_steps: 0,
+    arguments: [
+      { name: "scope", type: "string", required: true, description: "Area to inspect" },
+      { name: "depth", type: "number", required: false, description: "Levels", default: "2" },
+      { name: "verbose", type: "boolean", required: false, description: "More output" },
+    ],
+    gates: [],
+    keywords: [],
+  };
+  const summarize: PromptInfo = {
+    ...diagnose,
+    id: "summarize",
+    name: "Summarize",
+    arguments: [
+      { name: "content", type: "string", required: true, description: "Text to summarize" },
+      { name: "limit", type: "number", required: false, description: "Max words" },
+    ],
+  };
+  const cache: PromptsCache = { prompts: { diagnose, summarize } };
+
+  it("formats the expected signature", () => {
+    expect(formatPromptSignature(diagnose)).toBe(
+      ">>diagnose scope:<string> [depth:<number>=2] [verbose:<boolean>]"
+    );
+  });
+
+  it("reports missing required arguments and type mismatches", () => {
+    expect(validatePromptArgs({ prompt_id: "diagnose", args: { depth: "deep" }, text: "" }, diagnose)).toEqual([
+      'missing required argument "scope"',
+      '"depth" must be number (got "deep")',
+    ]);
+    expect(validatePromptArgs({ prompt_id: "diagnose", args: {}, text: "the login bug" }, diagnose)).toEqual([]);
+  });
+
+  it("checks prompt_engine commands with or without >>", () => {
+    expect(checkPromptCommandArgs('>>diagnose scope:"auth" depth:3 verbose:true', cache)).toBeNull();
+    expect(checkPromptCommandArgs("unknown_prompt x:1", cache)).toBeNull();
+
+    const error = checkPromptCommandArgs("diagnose verbose:maybe", cache);
+    expect(error).toContain('Invalid arguments for >>diagnose: missing required argument "scope"');
+    expect(error).toContain('"verbose" must be boolean (got "maybe")');
+    expect(error).toContain("Expected: >>diagnose scope:<string>");
+  });
+
+  it("reads free text on later lines of the command", () => {
+    expect(checkPromptCommandArgs(">>diagnose\nthe login page crashes on submit", cache)).toBeNull();
+  });
+
+  it("checks required arguments only on the first chain step", () => {
+    expect(checkPromptCommandArgs(">>diagnose scope:auth --> >>summarize", cache)).toBeNull();
+    expect(checkPromptCommandArgs(">>diagnose scope:auth --> >>summarize limit:many", cache)).toContain(
+      'Invalid arguments for >>summarize: "limit" must be number (got "many")'
+    );
+  });
+
+  it("normalizes commands by filling defaults and coercing types", () => {
+    const result = normalizePromptCommand('diagnose scope:"auth flow" verbose:yes', cache);
+    expect(result.command).toBe('diagnose scope:"auth flow" verbose:true depth:2');
+    expect(result.changes.map(formatArgumentChange)).toEqual(["2 (default)", '"yes" -> true']);
+    expect(checkPromptCommandArgs(result.command, cache)).toBeNull();
+
+    const coerced = normalizePromptCommand('>>diagnose scope:auth depth:"3.0" --> >>unknown_prompt x:1', cache);
+    expect(coerced.command).toBe(">>diagnose scope:auth depth:3 --> >>unknown_prompt x:1");
+    expect(coerced.changes).toEqual([{ prompt_id: "diagnose", arg: "depth", from: "3.0", to: "3" }]);
+  });
+
+  it("keeps free text and modifiers when rewriting arguments", () => {
+    expect(normalizePromptCommand('>>diagnose scope:"auth"\nextra context line\nmore', cache).command).toBe(
+      '>>diagnose scope:"auth" depth:2\nextra context line\nmore'
+    );
+    expect(normalizePromptCommand("%clean >>diagnose scope:auth verbose:on", cache).command).toBe(
+      "%clean >>diagnose scope:auth verbose:true depth:2"
+    );
+    expect(normalizePromptCommand("@CAGEERF >>diagnose scope:auth depth:2", cache).command).toBe(
+      "@CAGEERF >>diagnose scope:auth depth:2"
+    );
+    expect(normalizePromptCommand("@CAGEERF >>diagnose scope:auth depth:02.0", cache).command).toBe(
+      "@CAGEERF >>diagnose scope:auth depth:2"
+    );
+    expect(normalizePromptCommand(">>diagnose scope:auth check https://example.com/a:b", cache).command).toBe(
+      ">>diagnose scope:auth depth:2 check https://example.com/a:b"
+    );
+  });
+
+  it("leaves commands that need no changes as written", () => {
+    const command = "diagnose scope:auth depth:4 verbose:false";
+    expect(normalizePromptCommand(command, cache)).toEqual({ command, changes: [] });
+  });
+});
+
+describe("Prompt Suggestions", () => {
+  const promptsCache: PromptsCache = {
+    prompts: {
+      diagnose: {
+        id: "diagnose",
+        name: "Diagnose Issue",
+        category: "debugging",
+        description: "",
+        is_chain: false,
+        chain_steps: 0,
+        arguments: [],
+        gates: [],
+        keywords: ["bug", "error"],
+      },
+      review_chain: {
+        id: "review_chain",
+        name: "Review Chain",
+        category: "review",
+        description: "",
+        is_chain: true,
+        chain_steps: 4,
+        arguments: [],
+        gates: [],
+        keywords: ["bug"],
+      },
+    },
+  };
+  const gatesCache = {
+    gates: {
+      "code-quality": {
+        id: "code-quality",
+        name: "Code Quality",
+        type: "validation",
+        description: "",
+        triggers: ["code"],
+      },
+    },
+  };
+
+  it("detects work types", () => {
+    expect(detectWorkTypes("fix the auth bug")).toEqual(["code", "security"]);
+    expect(detectWorkTypes("hello there")).toEqual([]);
+  });
+
+  it("suggests prompts above the threshold with gates", () => {
+    const suggestions = suggestPrompts(
+      "debugging an error, this bug is odd",
+      { threshold: 15, maxResults: 3 },
+      promptsCache,
+      gatesCache
+    );
+
+    expect(formatPromptSuggestions(suggestions)).toBe(
+      "Relevant prompts: >>diagnose, >>review_chain (chain, 4 steps) | Gates: code-quality"
+    );
+  });
+
+  it("suggests nothing below the threshold", () => {
+    const suggestions = suggestPrompts("a bug", { threshold: 50, maxResults: 3 }, promptsCache, gatesCache);
+    expect(suggestions.prompts).toEqual([]);
+    expect(formatPromptSuggestions(suggestions)).toBe("");
+  });
+});
+
 describe("Response Parsing", () => {
   it("parses step indicators from response", () => {
     const response = "Step 1 of 3\nSome content here";
@@ -160,6 +1472,7 @@ describe("Response Parsing", () => {
     expect(state).not.toBeNull();
     expect(state?.pending_shell_verify).toBe("npm test");
     expect(state?.shell_verify_attempts).toBe(2);
+    expect(state?.shell_verify_max_attempts).toBe(5);
   });
 
   it("returns null for plain text without chain markers", () => {
@@ -169,16 +1482,95 @@ describe("Response Parsing", () => {
   });
 });
 
+describe("Structured Response Protocol", () => {
+  const block = {
+    protocol: "claude-prompts/chain-state",
+    version: 1,
+    chain_id: "chain-review#2",
+    prompt_id: "review",
+    step: { current: 2, total: 3 },
+    gate: { name: "code-quality", criteria: ["No type errors"] },
+    shell_verify: null,
+  };
+
+  it("prefers a fenced chain-state block over markdown markers", () => {
+    const response = [
+      "## Gate notes",
+      "### Ordinary Heading",
+      "Step 9 of 9",
+      "```chain-state",
+      JSON.stringify(block),
+      "```",
+    ].join("\n");
+    const result = parsePromptEngineResponseWithStrategy(response);
+
+    expect(result.strategy).toBe("fenced-block");
+    expect(result.protocol_version).toBe(1);
+    expect(result.state?.chain_id).toBe("chain-review#2");
+    expect(result.state?.current_step).toBe(2);
+    expect(result.state?.pending_gate).toBe("code-quality");
+    expect(result.state?.gate_criteria).toEqual(["No type errors"]);
+  });
+
+  it("reads structuredContent from MCP result objects", () => {
+    const result = parsePromptEngineResponseWithStrategy({
+      content: [{ type: "text", text: "Rendered prompt" }],
+      structuredContent: { chain_state: block },
+    });
+
+    expect(result.strategy).toBe("structured-content");
+    expect(result.state?.last_prompt_id).toBe("review");
+  });
+
+  it("falls back to legacy parsing for unsupported versions", () => {
+    const response = [
+      "Step 1 of 2",
+      "```chain-state",
+      JSON.stringify({ ...block, version: 2 }),
+      "```",
+    ].join("\n");
+    const result = parsePromptEngineResponseWithStrategy(response);
+
+    expect(result.strategy).toBe("legacy-regex");
+    expect(result.protocol_version).toBe(2);
+    expect(result.warnings[0]).toContain("unsupported protocol version");
+    expect(result.state?.current_step).toBe(1);
+  });
+
+  it("rejects blocks with mistyped fields", () => {
+    const mistyped = [
+      [{ ...block, gate: { name: "code-quality", criteria: "oops" } }, "gate.criteria"],
+      [{ ...block, chain_id: 42 }, "chain_id"],
+      [{ ...block, step: { current: "two", total: 3 } }, "step"],
+    ] as const;
+
+    for (const [data, field] of mistyped) {
+      const response = ["Step 1 of 2", "```chain-state", JSON.stringify(data), "```"].join("\n");
+      const result = parsePromptEngineResponseWithStrategy(response);
+
+      expect(result.strategy).toBe("legacy-regex");
+      expect(result.warnings).toEqual([`fenced-block: invalid field "${field}"`]);
+    }
+  });
+
+  it("reports legacy strategy for plain markdown", () => {
+    const result = parsePromptEngineResponseWithStrategy("Step 1 of 3");
+    expect(result.strategy).toBe("legacy-regex");
+    expect(result.protocol_version).toBeNull();
+  });
+});
+
 describe("Chain Reminder Formatting", () => {
   const testState: ChainState = {
+    ...createEmptyChainState(),
     chain_id: "chain-implement#3",
+    status: "awaiting_gate",
     current_step: 2,
     total_steps: 4,
     pending_gate: "code-quality",
     gate_criteria: ["Type safety", "Test coverage"],
     last_prompt_id: "implement",
-    pending_shell_verify: null,
-    shell_verify_attempts: 0,
+    shell_verify_max_attempts: 5,
   };
 
   it("formats full reminder for compaction", () => {
@@ -199,6 +1591,27 @@ describe("Chain Reminder Formatting", () => {
     expect(reminder).toContain("Gate:");
   });
 
+  it("includes the last verify run when observed", () => {
+    const verifyState: ChainState = {
+      ...testState,
+      pending_gate: null,
+      pending_shell_verify: "npm test",
+      shell_verify_attempts: 2,
+      shell_verify_last_run: {
+        command: "npm test",
+        exit_code: 1,
+        passed: false,
+        summary: "3 tests failed",
+        output_tail: "",
+        timestamp: new Date().toISOString(),
+        acknowledged: false,
+      },
+    };
+
+    expect(formatChainReminder(verifyState, "full")).toContain("Last run failed (exit 1): 3 tests failed");
+    expect(formatChainReminder(verifyState, "inline")).toContain("Last run failed: 3 tests failed");
+  });
+
   it("includes shell verify info when present", () => {
     const verifyState: ChainState = {
       ...testState,
@@ -213,3 +1626,288 @@ describe("Chain Reminder Formatting", () => {
     expect(reminder).toContain("2/5");
   });
 });
+
+describe("Plugin Hooks", () => {
+  let projectDir: string;
+  const previousWorkspace = process.env.MCP_WORKSPACE;
+
+  beforeAll(() => {
+    projectDir = mkdtempSync(join(tmpdir(), "opencode-prompts-hooks-"));
+    mkdirSync(join(projectDir, ".opencode"));
+    process.env.MCP_WORKSPACE = projectDir;
+  });
+
+  afterAll(() => {
+    process.env.MCP_WORKSPACE = previousWorkspace;
+    if (previousWorkspace === undefined) delete process.env.MCP_WORKSPACE;
+    rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  async function createPlugin(config: PluginConfigFile = {}) {
+    writeFileSync(join(projectDir, ".opencode", "opencode-prompts.json"), JSON.stringify(config));
+    return OpenCodePromptsPlugin({ directory: projectDir });
+  }
+
+  function saveChain(sessionId: string, overrides: Partial<ChainState>): void {
+    saveSessionState(sessionId, { ...createEmptyChainState(), ...overrides }, projectDir);
+  }
+
+  it("enforces gates only on the chain named by chain_id", async () => {
+    const plugin = await createPlugin();
+    const before = plugin["tool.execute.before"];
+    const sessionID = "hooks-two-chains";
+    saveChain(sessionID, { chain_id: "chain-B#1", status: "running", current_step: 1, total_steps: 3 });
+    saveChain(sessionID, {
+      chain_id: "chain-A#1",
+      status: "awaiting_gate",
+      current_step: 2,
+      total_steps: 4,
+      pending_gate: "code-quality",
+    });
+
+    await expect(
+      before({ tool: "prompt_engine", sessionID }, { args: { chain_id: "chain-C#9" } })
+    ).resolves.toBeUndefined();
+    await before(
+      { tool: "prompt_engine", sessionID },
+      { args: { chain_id: "chain-C#9", gate_verdict: "GATE_REVIEW: PASS - ok" } }
+    );
+    expect(loadSessionState(sessionID, projectDir, "chain-A#1")?.pending_gate).toBe("code-quality");
+
+    await expect(
+      before({ tool: "prompt_engine", sessionID }, { args: { chain_id: "chain-A#1" } })
+    ).rejects.toThrow('Gate "code-quality" requires a response');
+    clearSessionState(sessionID, projectDir);
+  });
+
+  it("applies the per-prompt policy to a chain started by a command", async () => {
+    const plugin = await createPlugin({ gatePolicy: { mode: "strict", prompts: { explore: "warn" } } });
+    const sessionID = "hooks-prompt-policy";
+    await plugin["tool.execute.after"]({
+      tool: "prompt_engine",
+      sessionID,
+      args: { command: ">>explore topic:auth" },
+      metadata: { output: "Step 1 of 2 (chain-explore#1)\n\n## Inline Gates\n### code-quality\n- Tests pass\n" },
+    });
+    expect(loadSessionState(sessionID, projectDir, "chain-explore#1")?.last_prompt_id).toBe("explore");
+
+    await expect(
+      plugin["tool.execute.before"](
+        { tool: "prompt_engine", sessionID },
+        { args: { chain_id: "chain-explore#1", gate_verdict: "GATE_REVIEW: FAIL - not covered yet" } }
+      )
+    ).resolves.toBeUndefined();
+    clearSessionState(sessionID, projectDir);
+  });
+
+  it("completes a single gated prompt on PASS", async () => {
+    const plugin = await createPlugin();
+    const sessionID = "hooks-single-gate";
+    const block = { protocol: "claude-prompts/chain-state", version: 1, gate: { name: "code-quality" } };
+    await plugin["tool.execute.after"]({
+      tool: "prompt_engine",
+      sessionID,
+      args: { command: ">>review" },
+      metadata: { output: ["Review the code.", "```chain-state", JSON.stringify(block), "```"].join("\n") },
+    });
+    expect(loadSessionState(sessionID, projectDir)?.status).toBe("awaiting_gate");
+
+    const args = { gate_verdict: "GATE_REVIEW: PASS - No errors found" };
+    await plugin["tool.execute.before"]({ tool: "prompt_engine", sessionID, args }, { args: { ...args } });
+    expect(loadSessionState(sessionID, projectDir)).toMatchObject({ status: "completed", pending_gate: null });
+
+    await plugin["tool.execute.after"]({ tool: "prompt_engine", sessionID, args, metadata: { output: "Done." } });
+    expect(listSessionChains(sessionID, projectDir)).toEqual([]);
+    clearSessionState(sessionID, projectDir);
+  });
+
+  it("rejects gate verdicts it cannot read", async () => {
+    const plugin = await createPlugin();
+    const sessionID = "hooks-unknown-verdict";
+    saveChain(sessionID, {
+      chain_id: "chain-A#1",
+      status: "awaiting_gate",
+      current_step: 2,
+      total_steps: 4,
+      pending_gate: "code-quality",
+    });
+
+    for (const gate_verdict of ["tests fail", "pass the buck"]) {
+      await expect(
+        plugin["tool.execute.before"](
+          { tool: "prompt_engine", sessionID },
+          { args: { chain_id: "chain-A#1", gate_verdict } }
+        )
+      ).rejects.toThrow(`Gate "code-quality" verdict not understood: ${JSON.stringify(gate_verdict)}`);
+    }
+    await expect(
+      plugin["tool.execute.before"](
+        { tool: "prompt_engine", sessionID },
+        { args: { chain_id: "chain-A#1", gate_verdict: "GATE_REVIEW: FAILED - tests broken" } }
+      )
+    ).rejects.toThrow('Gate FAIL: "tests broken"');
+    expect(loadSessionState(sessionID, projectDir, "chain-A#1")?.pending_gate).toBe("code-quality");
+    clearSessionState(sessionID, projectDir);
+  });
+
+  it("audits verdicts on calls rejected before the gate check", async () => {
+    const plugin = await createPlugin();
+    const sessionID = "hooks-audit-escalated";
+    saveChain(sessionID, {
+      chain_id: "chain-A#1",
+      status: "failed",
+      current_step: 2,
+      total_steps: 4,
+      pending_gate: "code-quality",
+      pending_shell_verify: "npm test",
+      shell_verify_attempts: 6,
+      shell_verify_max_attempts: 5,
+      shell_verify_outcome: "escalated",
+    });
+
+    await expect(
+      plugin["tool.execute.before"](
+        { tool: "prompt_engine", sessionID },
+        { args: { chain_id: "chain-A#1", gate_verdict: "GATE_REVIEW: PASS - fixed" } }
+      )
+    ).rejects.toThrow("used all 5 attempts");
+    expect(readGateAudit({ session_id: sessionID }, projectDir)).toMatchObject([
+      { chain_id: "chain-A#1", gate: "code-quality", verdict: "PASS", blocked: true },
+    ]);
+    clearSessionState(sessionID, projectDir);
+  });
+
+  describe("open chains", () => {
+    const sessionID = "hooks-open-chain";
+    const input = { tool: "prompt_engine", sessionID, args: { command: ">>diagnose scope:auth" } };
+
+    beforeEach(() => {
+      saveChain(sessionID, { chain_id: "chain-A#1", status: "running", current_step: 1, total_steps: 3 });
+    });
+
+    afterEach(() => {
+      clearSessionState(sessionID, projectDir);
+    });
+
+    it("warns about a new prompt started over an open chain", async () => {
+      const plugin = await createPlugin({ openChains: { policy: "warn" } });
+
+      await plugin["tool.execute.before"](input, { args: { ...input.args } });
+      const result = await plugin["tool.execute.after"]({ ...input, metadata: { output: "" } });
+      expect(result?.context).toContain("[Chain] chain-A#1 is still open at step 1/3");
+      expect(loadSessionState(sessionID, projectDir, "chain-A#1")).not.toBeNull();
+    });
+
+    it("blocks a new prompt started over an open chain", async () => {
+      const plugin = await createPlugin({ openChains: { policy: "block" } });
+
+      await expect(
+        plugin["tool.execute.before"](input, { args: { ...input.args } })
+      ).rejects.toThrow("[Chain] chain-A#1 is still open");
+    });
+
+    it("abandons the open chain for resuming", async () => {
+      const plugin = await createPlugin({ openChains: { policy: "abandon" } });
+
+      await plugin["tool.execute.before"](input, { args: { ...input.args } });
+      expect(loadSessionState(sessionID, projectDir, "chain-A#1")).toBeNull();
+      expect(listAbandonedChains(sessionID, projectDir).map((record) => record.chain.chain_id)).toEqual([
+        "chain-A#1",
+      ]);
+      expect(listAbandonedChains(sessionID, projectDir)[0].reason).toBe("new prompt: >>diagnose scope:auth");
+    });
+
+    it("treats a call with a gate verdict as answering the open chain", async () => {
+      saveChain(sessionID, {
+        chain_id: "chain-A#1",
+        status: "awaiting_gate",
+        current_step: 1,
+        total_steps: 3,
+        pending_gate: "code-quality",
+      });
+      const plugin = await createPlugin({ openChains: { policy: "abandon" } });
+      const args = { ...input.args, gate_verdict: "GATE_REVIEW: PASS - all criteria met" };
+
+      await plugin["tool.execute.before"]({ ...input, args }, { args: { ...args } });
+      expect(listAbandonedChains(sessionID, projectDir)).toEqual([]);
+      expect(loadSessionState(sessionID, projectDir, "chain-A#1")).toMatchObject({
+        status: "running",
+        pending_gate: null,
+      });
+    });
+  });
+
+  it("injects the active chain_id into continuations", async () => {
+    const plugin = await createPlugin();
+    const sessionID = "hooks-continuation";
+    saveChain(sessionID, {
+      chain_id: "chain-A#1",
+      status: "awaiting_gate",
+      current_step: 2,
+      total_steps: 4,
+      pending_gate: "code-quality",
+      last_prompt_id: "review",
+    });
+
+    const output = { args: { gate_verdict: "GATE_REVIEW: PASS - looks good" } as Record<string, unknown> };
+    await plugin["tool.execute.before"]({ tool: "prompt_engine", sessionID, args: { ...output.args } }, output);
+
+    expect(output.args.chain_id).toBe("chain-A#1");
+    expect(loadSessionState(sessionID, projectDir, "chain-A#1")?.pending_gate).toBeNull();
+    expect(getSessionTimeline(sessionID, projectDir, { chain_id: "chain-A#1" })[0]).toMatchObject({
+      type: "arg_injected",
+      arg: "chain_id",
+      value: "chain-A#1",
+    });
+    clearSessionState(sessionID, projectDir);
+  });
+
+  it("restores chain state after a compaction event", async () => {
+    const plugin = await createPlugin();
+    const sessionID = "hooks-compacted";
+    saveChain(sessionID, {
+      chain_id: "chain-A#1",
+      status: "awaiting_gate",
+      current_step: 2,
+      total_steps: 4,
+      pending_gate: "code-quality",
+    });
+
+    await plugin.event({ event: { type: "session.compacted", properties: { sessionID } } });
+    const output = { system: [] as string[] };
+    await plugin["experimental.chat.system.transform"]({ sessionID }, output);
+
+    expect(output.system).toHaveLength(1);
+    expect(output.system[0]).toContain("## Chain State (restored after compaction)");
+    expect(output.system[0]).toContain("chain-A#1");
+    clearSessionState(sessionID, projectDir);
+  });
+
+  it("denies file-modifying tools while a gate is pending", async () => {
+    const sessionID = "hooks-gate-lock";
+    saveChain(sessionID, {
+      chain_id: "chain-A#1",
+      status: "awaiting_gate",
+      current_step: 2,
+      total_steps: 4,
+      pending_gate: "code-quality",
+    });
+
+    const unlocked = await createPlugin();
+    await expect(
+      unlocked["tool.execute.before"]({ tool: "edit", sessionID }, { args: { filePath: "src/a.ts" } })
+    ).resolves.toBeUndefined();
+
+    const plugin = await createPlugin({ gateLock: { enabled: true } });
+    const before = plugin["tool.execute.before"];
+    await expect(
+      before({ tool: "edit", sessionID }, { args: { filePath: "src/a.ts" } })
+    ).rejects.toThrow('[Gate] edit is blocked while gate "code-quality" awaits review on chain-A#1');
+    await expect(
+      before({ tool: "bash", sessionID }, { args: { command: "echo done > notes.txt" } })
+    ).rejects.toThrow("[Gate] bash is blocked");
+    await expect(before({ tool: "read", sessionID }, { args: { filePath: "src/a.ts" } })).resolves.toBeUndefined();
+    await expect(before({ tool: "bash", sessionID }, { args: { command: "npm test" } })).resolves.toBeUndefined();
+    clearSessionState(sessionID, projectDir);
+  });
+});